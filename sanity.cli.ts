@@ -0,0 +1,13 @@
+import { defineCliConfig } from "sanity/cli";
+
+export default defineCliConfig({
+  api: {
+    projectId: process.env.NEXT_PUBLIC_SANITY_PROJECT_ID,
+    dataset: process.env.NEXT_PUBLIC_SANITY_DATASET || "production",
+  },
+  typegen: {
+    path: "./src/**/*.{ts,tsx}",
+    schema: "./src/lib/sanity/schema.json",
+    generates: "./src/lib/sanity/sanity.types.ts",
+  },
+});
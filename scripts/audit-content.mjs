@@ -0,0 +1,256 @@
+#!/usr/bin/env node
+
+/**
+ * Audits restaurant content for problems that break or degrade the site.
+ *
+ * Usage:
+ *   node --env-file=.env.local scripts/audit-content.mjs   # Sanity dataset
+ *   node scripts/audit-content.mjs --local                 # content/ folder
+ *
+ * Without NEXT_PUBLIC_SANITY_PROJECT_ID it audits content/, same as the site.
+ * Set SANITY_API_READ_TOKEN to audit a private dataset.
+ *
+ * Errors are documents that would break a page: duplicate slugs, missing or
+ * out-of-range scores, bad dates, images whose file or asset is gone. Warnings are
+ * content the site can render but shouldn't ship: no hero image, missing alt text,
+ * long summaries, no map pin.
+ * Exits 1 when any errors are found.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { createClient } from "@sanity/client";
+import { parse as parseYaml } from "yaml";
+
+const SCORE_FIELDS = ["taste", "vibe", "service", "value"];
+const PRICE_RANGES = ["$", "$$", "$$$", "$$$$"];
+// Keep in step with SUMMARY_MAX_LENGTH in the restaurant schema
+const SUMMARY_LENGTH = 200;
+const CONTENT_DIR = path.resolve("content");
+
+const RESTAURANTS_QUERY = `*[_type == "restaurant"] | order(dateVisited desc) {
+  _id,
+  name,
+  "slug": slug.current,
+  location,
+  cuisine,
+  priceRange,
+  scores,
+  rubricVersion,
+  rickFactor,
+  summary,
+  dateVisited,
+  "gallery": gallery[]{alt, "found": defined(asset)},
+  "visits": visits[]{date, scores, "photos": photos[]{alt, "found": defined(asset)}},
+  "dishes": dishes[]{name, score}
+}`;
+
+const RUBRIC_VERSIONS_QUERY = `*[_type == "siteSettings"][0].scoringRubrics[].version`;
+
+const { values: options } = parseArgs({
+  options: { local: { type: "boolean", default: false } },
+});
+
+const today = new Date().toISOString().slice(0, 10);
+
+function isDate(value) {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function isScore(value) {
+  return typeof value === "number" && value >= 1 && value <= 10;
+}
+
+// ─── Sources ───────────────────────────────────────────────────────────────
+
+async function fromSanity(projectId) {
+  const client = createClient({
+    projectId,
+    dataset: process.env.NEXT_PUBLIC_SANITY_DATASET || "production",
+    apiVersion: "2024-01-01",
+    useCdn: false,
+    perspective: "published",
+    token: process.env.SANITY_API_READ_TOKEN,
+  });
+  const [restaurants, rubricVersions] = await Promise.all([
+    client.fetch(RESTAURANTS_QUERY),
+    client.fetch(RUBRIC_VERSIONS_QUERY),
+  ]);
+  return {
+    restaurants: restaurants.map((doc) => ({ ...doc, source: doc._id })),
+    rubricVersions: rubricVersions ?? [],
+  };
+}
+
+function readFrontMatter(file) {
+  const raw = readFileSync(file, "utf8");
+  if (file.endsWith(".json")) return JSON.parse(raw);
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  return (match && parseYaml(match[1])) ?? {};
+}
+
+// Local images are paths relative to the file, so "found" means the file exists
+function localImage(entry, file) {
+  const { src, alt } = typeof entry === "string" ? { src: entry } : entry ?? {};
+  const found = !!src && existsSync(path.resolve(path.dirname(file), src));
+  return { alt, found };
+}
+
+function fromLocal() {
+  const dir = path.join(CONTENT_DIR, "restaurants");
+  const files = existsSync(dir)
+    ? readdirSync(dir).filter((name) => /\.(md|json)$/.test(name)).sort()
+    : [];
+
+  const restaurants = files.map((name) => {
+    const file = path.join(dir, name);
+    const data = readFrontMatter(file);
+    return {
+      ...data,
+      source: path.relative(process.cwd(), file),
+      slug: data.slug ?? path.basename(name, path.extname(name)),
+      gallery: data.gallery?.map((img) => localImage(img, file)),
+      visits: data.visits?.map((visit) => ({
+        ...visit,
+        photos: visit.photos?.map((img) => localImage(img, file)),
+      })),
+    };
+  });
+
+  const settingsFile = ["settings.md", "settings.json"]
+    .map((name) => path.join(CONTENT_DIR, name))
+    .find(existsSync);
+  const settings = settingsFile ? readFrontMatter(settingsFile) : {};
+
+  return {
+    restaurants,
+    rubricVersions: (settings.scoringRubrics ?? []).map((r) => r.version),
+  };
+}
+
+// ─── Checks ────────────────────────────────────────────────────────────────
+
+function checkScores(scores, label, errors) {
+  if (!scores) {
+    errors.push(`${label} are missing`);
+    return;
+  }
+  for (const field of SCORE_FIELDS) {
+    if (scores[field] == null) errors.push(`${label}.${field} is missing`);
+    else if (!isScore(scores[field])) {
+      errors.push(`${label}.${field} must be between 1 and 10 (got ${scores[field]})`);
+    }
+  }
+}
+
+function checkDate(value, label, errors) {
+  if (!value) errors.push(`${label} is missing`);
+  else if (!isDate(value)) errors.push(`${label} must be YYYY-MM-DD (got "${value}")`);
+  else if (value > today) errors.push(`${label} is in the future (${value})`);
+}
+
+function checkPhotos(photos = [], label, errors, warnings) {
+  photos.forEach((photo, i) => {
+    if (!photo.found) errors.push(`${label}[${i}] has no image file`);
+    else if (!photo.alt?.trim()) warnings.push(`${label}[${i}] is missing alt text`);
+  });
+}
+
+function audit(doc, rubricVersions) {
+  const errors = [];
+  const warnings = [];
+
+  if (!doc.name?.trim()) errors.push("name is missing");
+  if (!doc.slug) errors.push("slug is missing");
+  if (!doc.cuisine?.trim()) errors.push("cuisine is missing");
+  if (!PRICE_RANGES.includes(doc.priceRange)) {
+    errors.push(`priceRange must be $–$$$$ (got ${JSON.stringify(doc.priceRange)})`);
+  }
+
+  if (!doc.location) errors.push("location is missing");
+  else {
+    if (!doc.location.city) errors.push("location.city is missing");
+    if (!doc.location.state) errors.push("location.state is missing");
+    if (!doc.location.coordinates) warnings.push("no coordinates — left off the map");
+  }
+
+  checkScores(doc.scores, "scores", errors);
+  if (doc.rickFactor?.score == null) errors.push("rickFactor.score is missing");
+  else if (!isScore(doc.rickFactor.score)) {
+    errors.push(`rickFactor.score must be between 1 and 10 (got ${doc.rickFactor.score})`);
+  }
+  if (doc.rubricVersion != null && !rubricVersions.includes(doc.rubricVersion)) {
+    // rubricFor falls back to the newest rubric, or the built-in weights when there are none
+    const fallback = rubricVersions.length ? "the current rubric" : "the default weights";
+    warnings.push(`rubricVersion ${doc.rubricVersion} isn't in Site Settings — scored with ${fallback}`);
+  }
+
+  checkDate(doc.dateVisited, "dateVisited", errors);
+  doc.visits?.forEach((visit, i) => {
+    checkDate(visit.date, `visits[${i}].date`, errors);
+    checkScores(visit.scores, `visits[${i}].scores`, errors);
+    checkPhotos(visit.photos, `visits[${i}].photos`, errors, warnings);
+  });
+
+  doc.dishes?.forEach((dish, i) => {
+    const label = `dishes[${i}]${dish.name ? ` (${dish.name})` : ""}`;
+    if (!dish.name?.trim()) errors.push(`${label} has no name`);
+    if (!isScore(dish.score)) errors.push(`${label} score must be between 1 and 10 (got ${dish.score})`);
+  });
+
+  if (!doc.gallery?.length) warnings.push("no hero image — the timeline shows a placeholder");
+  checkPhotos(doc.gallery, "gallery", errors, warnings);
+
+  if (!doc.summary?.trim()) errors.push("summary is missing");
+  else if (doc.summary.length > SUMMARY_LENGTH) {
+    warnings.push(`summary is ${doc.summary.length} characters — timeline cards fit ${SUMMARY_LENGTH}`);
+  }
+
+  return { errors, warnings };
+}
+
+// ─── Run ───────────────────────────────────────────────────────────────────
+
+const projectId = process.env.NEXT_PUBLIC_SANITY_PROJECT_ID;
+const useLocal = options.local || !projectId;
+
+console.log("\n🔎 Rick's Cafe — Content Audit\n");
+console.log(`   Source: ${useLocal ? "content/" : `Sanity ${projectId}`}\n`);
+
+let data;
+try {
+  data = useLocal ? fromLocal() : await fromSanity(projectId);
+} catch (e) {
+  console.error("❌ Failed to load content:", e.message);
+  process.exit(1);
+}
+
+const seen = new Map();
+let errorCount = 0;
+let warningCount = 0;
+
+for (const doc of data.restaurants) {
+  const { errors, warnings } = audit(doc, data.rubricVersions);
+
+  const duplicate = doc.slug && seen.get(doc.slug);
+  if (duplicate) errors.push(`slug "${doc.slug}" is also used by ${duplicate}`);
+  else if (doc.slug) seen.set(doc.slug, doc.source);
+
+  errorCount += errors.length;
+  warningCount += warnings.length;
+
+  const label = `${doc.source}${doc.name ? ` (${doc.name})` : ""}`;
+  if (errors.length) console.error(`❌ ${label}`);
+  else if (warnings.length) console.log(`⚠️  ${label}`);
+  else console.log(`✅ ${label}`);
+  errors.forEach((error) => console.error(`     ${error}`));
+  warnings.forEach((warning) => console.log(`     warning: ${warning}`));
+}
+
+console.log(
+  `\n   ${data.restaurants.length} restaurants, ${errorCount} errors, ${warningCount} warnings\n`
+);
+process.exit(errorCount ? 1 : 0);
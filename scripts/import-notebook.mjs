@@ -0,0 +1,334 @@
+#!/usr/bin/env node
+
+/**
+ * Imports past reviews from the Moleskine notebook.
+ *
+ * Usage:
+ *   node scripts/import-notebook.mjs <input> [options]
+ *
+ *   <input>  a .csv file, a Markdown file with front matter, or a folder of them
+ *
+ * Options:
+ *   --to ndjson|content  Output for `sanity dataset import` (default) or content/ files
+ *   --out <path>         NDJSON file (default: notebook-import.ndjson) or content
+ *                        folder (default: content)
+ *   --dry-run            Validate and report without writing anything
+ *   --overwrite          Replace content files that already exist
+ *
+ * Each row or file needs: name, date, taste, vibe, service, value, rickFactor,
+ * cuisine, price, and a summary or notes (the summary defaults to their first
+ * paragraph). Optional: rickFactorNote, slug, neighborhood, address, city, state.
+ * In Markdown files the body is used as the notes.
+ *
+ * Then:
+ *   npx sanity dataset import notebook-import.ndjson production
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { markdownToPortableText } from "@portabletext/markdown";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+
+const SCORE_FIELDS = ["taste", "vibe", "service", "value"];
+const PRICE_RANGES = ["$", "$$", "$$$", "$$$$"];
+const SUMMARY_LENGTH = 200;
+
+// Notebook exports aren't consistent about headers — map the variants we've seen
+const FIELD_ALIASES = {
+  restaurant: "name",
+  datevisited: "date",
+  visited: "date",
+  pricerange: "price",
+  rickfactor: "rickFactor",
+  rick: "rickFactor",
+  rickfactorscore: "rickFactor",
+  rickfactornote: "rickFactorNote",
+  rickfactordescription: "rickFactorNote",
+  review: "notes",
+};
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    to: { type: "string", default: "ndjson" },
+    out: { type: "string" },
+    "dry-run": { type: "boolean", default: false },
+    overwrite: { type: "boolean", default: false },
+  },
+});
+
+const [input] = positionals;
+if (!input || !["ndjson", "content"].includes(options.to)) {
+  console.error("Usage: node scripts/import-notebook.mjs <input> [--to ndjson|content] [--out path] [--dry-run]");
+  process.exit(1);
+}
+
+function normalizeKey(key) {
+  const flat = key.toLowerCase().replace(/[^a-z]/g, "");
+  return FIELD_ALIASES[flat] ?? SCORE_FIELDS.find((f) => f === flat) ?? flat;
+}
+
+function slugify(text) {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 96);
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+
+  const [header, ...body] = rows.filter((r) => r.some((cell) => cell.trim()));
+  const keys = (header ?? []).map(normalizeKey);
+  // Line numbers count the header, so "row 2" is the first record in a spreadsheet
+  return body.map((cells, i) => ({
+    source: `row ${i + 2}`,
+    fields: Object.fromEntries(keys.map((key, j) => [key, cells[j]?.trim() ?? ""])),
+  }));
+}
+
+function parseMarkdown(file) {
+  const raw = readFileSync(file, "utf8");
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  const data = match ? parseYaml(match[1]) ?? {} : {};
+  const body = (match ? match[2] : raw).trim();
+
+  const fields = Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [normalizeKey(key), value == null ? "" : String(value)])
+  );
+  if (body) fields.notes = body;
+  return { source: path.basename(file), fields };
+}
+
+function readRecords(target) {
+  if (!existsSync(target)) {
+    console.error(`❌ ${target} not found`);
+    process.exit(1);
+  }
+
+  if (statSync(target).isDirectory()) {
+    return readdirSync(target)
+      .filter((name) => /\.(csv|md|markdown)$/i.test(name))
+      .sort()
+      .flatMap((name) => readRecords(path.join(target, name)));
+  }
+
+  if (/\.csv$/i.test(target)) return parseCsv(readFileSync(target, "utf8"));
+  return [parseMarkdown(target)];
+}
+
+function parseScore(value, label, errors) {
+  if (value === undefined || value === "") {
+    errors.push(`${label} is required`);
+    return undefined;
+  }
+  const score = Number(value);
+  if (Number.isNaN(score) || score < 1 || score > 10) {
+    errors.push(`${label} must be between 1 and 10 (got "${value}")`);
+    return undefined;
+  }
+  return score;
+}
+
+function parsePrice(value, errors) {
+  if (!value) {
+    errors.push("price is required");
+    return undefined;
+  }
+  // The notebook wrote price as dollar signs or a 1–4 count
+  const price = /^[1-4]$/.test(value) ? "$".repeat(Number(value)) : value;
+  if (!PRICE_RANGES.includes(price)) {
+    errors.push(`price must be $–$$$$ or 1–4 (got "${value}")`);
+    return undefined;
+  }
+  return price;
+}
+
+function parseDate(value, errors) {
+  if (!value) {
+    errors.push("date is required");
+    return undefined;
+  }
+  // Round-trip so impossible days like 2021-02-30 fail too
+  const date = new Date(`${value}T00:00:00Z`);
+  const valid =
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(date.getTime()) &&
+    date.toISOString().slice(0, 10) === value;
+  if (!valid) {
+    errors.push(`date must be YYYY-MM-DD (got "${value}")`);
+    return undefined;
+  }
+  if (value > new Date().toISOString().slice(0, 10)) {
+    errors.push(`date can't be in the future (got "${value}")`);
+    return undefined;
+  }
+  return value;
+}
+
+function summarize(notes) {
+  const [firstParagraph = ""] = notes.split(/\n\s*\n/);
+  const text = firstParagraph.replace(/\s+/g, " ").trim();
+  return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH - 1).trimEnd()}…` : text;
+}
+
+// Mirrors the restaurant schema rules so bad rows fail here, not in the Studio
+function validate({ fields }) {
+  const errors = [];
+  const name = fields.name?.trim();
+  if (!name) errors.push("name is required");
+
+  const slug = slugify(fields.slug || name || "");
+  if (name && !slug) errors.push("slug could not be generated from the name");
+
+  const scores = Object.fromEntries(
+    SCORE_FIELDS.map((key) => [key, parseScore(fields[key], key, errors)])
+  );
+  const rickFactor = parseScore(fields.rickFactor, "rickFactor", errors);
+  const priceRange = parsePrice(fields.price?.trim(), errors);
+  const dateVisited = parseDate(fields.date?.trim(), errors);
+  if (!fields.cuisine?.trim()) errors.push("cuisine is required");
+  if (fields.summary?.length > SUMMARY_LENGTH) {
+    errors.push(`summary must be ${SUMMARY_LENGTH} characters or fewer (got ${fields.summary.length})`);
+  }
+
+  const notes = fields.notes?.trim() ?? "";
+  const summary = fields.summary?.trim() || summarize(notes);
+  if (!summary) errors.push("summary is required — add a summary or notes to draw one from");
+
+  const restaurant = {
+    name,
+    slug,
+    location: {
+      ...(fields.address && { address: fields.address }),
+      ...(fields.neighborhood && { neighborhood: fields.neighborhood }),
+      city: fields.city || "Houston",
+      state: fields.state || "TX",
+    },
+    cuisine: fields.cuisine?.trim(),
+    priceRange,
+    scores,
+    // Notebook scores predate the weighted rubrics
+    rubricVersion: 1,
+    rickFactor: { score: rickFactor, description: fields.rickFactorNote ?? "" },
+    summary,
+    dateVisited,
+  };
+
+  return { errors, restaurant, notes };
+}
+
+function toSanityDocument({ restaurant, notes }) {
+  const { slug, ...fields } = restaurant;
+  return {
+    _id: `notebook-${slug}`,
+    _type: "restaurant",
+    ...fields,
+    slug: { _type: "slug", current: slug },
+    review: notes ? markdownToPortableText(notes) : [],
+  };
+}
+
+function toContentFile({ restaurant, notes }) {
+  return `---\n${stringifyYaml(restaurant, { lineWidth: 0 })}---\n\n${notes}\n`;
+}
+
+console.log("\n📓 Rick's Cafe — Notebook Import\n");
+
+const records = readRecords(input);
+const seen = new Map();
+const valid = [];
+let failed = 0;
+
+for (const record of records) {
+  const result = validate(record);
+  const label = `${record.source}${result.restaurant.name ? ` (${result.restaurant.name})` : ""}`;
+
+  const duplicate = seen.get(result.restaurant.slug);
+  if (duplicate) result.errors.push(`slug "${result.restaurant.slug}" already used by ${duplicate}`);
+  else if (result.restaurant.slug) seen.set(result.restaurant.slug, record.source);
+
+  if (result.errors.length) {
+    failed++;
+    console.error(`❌ ${label}`);
+    result.errors.forEach((error) => console.error(`     ${error}`));
+    continue;
+  }
+  valid.push(result);
+  console.log(`✅ ${label} → ${result.restaurant.slug}`);
+}
+
+console.log(`\n   ${valid.length} valid, ${failed} with errors, ${records.length} total`);
+
+if (options["dry-run"]) {
+  console.log("   Dry run — nothing written\n");
+  process.exit(failed ? 1 : 0);
+}
+
+if (valid.length === 0) {
+  console.log("   Nothing to write\n");
+  process.exit(1);
+}
+
+if (options.to === "ndjson") {
+  const out = options.out ?? "notebook-import.ndjson";
+  writeFileSync(out, valid.map((r) => JSON.stringify(toSanityDocument(r))).join("\n") + "\n");
+  console.log(`\n✅ Wrote ${valid.length} documents to ${out}`);
+  console.log(`   Run: npx sanity dataset import ${out} production\n`);
+} else {
+  const dir = path.join(options.out ?? "content", "restaurants");
+  mkdirSync(dir, { recursive: true });
+
+  let written = 0;
+  for (const result of valid) {
+    const { slug } = result.restaurant;
+    const exists = [".md", ".json"].some((ext) => existsSync(path.join(dir, `${slug}${ext}`)));
+    if (exists && !options.overwrite) {
+      console.log(`⚠️  ${slug} already exists in ${dir}, skipping (use --overwrite)`);
+      continue;
+    }
+    writeFileSync(path.join(dir, `${slug}.md`), toContentFile(result));
+    written++;
+  }
+  console.log(`\n✅ Wrote ${written} files to ${dir}\n`);
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+
+/**
+ * Sends a signed sample Sanity webhook to the revalidate route.
+ *
+ * Usage:
+ *   1. Set SANITY_WEBHOOK_SECRET in .env.local (the same secret as the Sanity webhook)
+ *   2. Run: npm run dev
+ *   3. Run: node --env-file=.env.local scripts/test-revalidate.mjs [slug] [url]
+ *
+ * Defaults to a "restaurant" publish for the given slug against
+ * http://localhost:3000/api/revalidate. Pass "siteSettings" as the slug to
+ * simulate a Site Settings publish instead.
+ *
+ * Sanity webhook setup (manage.sanity.io → API → Webhooks):
+ *   - URL:        https://<your-site>/api/revalidate
+ *   - Trigger on: Create, Update, Delete
+ *   - Filter:     _type in ["restaurant", "siteSettings"]
+ *   - Projection: {_type, "slug": slug.current, "previousSlug": before().slug.current}
+ *   - Secret:     SANITY_WEBHOOK_SECRET
+ */
+
+import { createHmac } from "crypto";
+
+const secret = process.env.SANITY_WEBHOOK_SECRET;
+if (!secret) {
+  console.error("❌ SANITY_WEBHOOK_SECRET is not set. Run with --env-file=.env.local");
+  process.exit(1);
+}
+
+const [slug = "sample-restaurant", url = "http://localhost:3000/api/revalidate"] =
+  process.argv.slice(2);
+
+const payload = JSON.stringify(
+  slug === "siteSettings" ? { _type: "siteSettings" } : { _type: "restaurant", slug }
+);
+
+// Same scheme as @sanity/webhook: base64url HMAC-SHA256 of "<timestamp>.<payload>"
+const timestamp = Date.now();
+const signature = createHmac("sha256", secret)
+  .update(`${timestamp}.${payload}`)
+  .digest("base64url");
+
+console.log(`\nPOST ${url}`);
+console.log(`   ${payload}\n`);
+
+try {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "sanity-webhook-signature": `t=${timestamp},v1=${signature}`,
+    },
+    body: payload,
+  });
+  const text = await res.text();
+  console.log(`${res.ok ? "✅" : "❌"} ${res.status} ${text}`);
+  process.exit(res.ok ? 0 : 1);
+} catch (e) {
+  console.error("❌ Request failed — is the dev server running?", e.message);
+  process.exit(1);
+}
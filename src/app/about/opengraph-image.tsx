@@ -0,0 +1,31 @@
+import { ImageResponse } from "next/og";
+import { SiteCard } from "@/components/og/ShareCard";
+import { getSiteSettings } from "@/lib/content";
+import { OG_SIZE, ogFonts } from "@/lib/og";
+import type { SiteSettings } from "@/lib/types";
+
+export const alt = "About Rick's Cafe";
+export const size = OG_SIZE;
+export const contentType = "image/png";
+
+export default async function Image() {
+  let settings: SiteSettings | null = null;
+
+  try {
+    settings = await getSiteSettings();
+  } catch {
+    // Content source unavailable — fall back to the page's own description
+  }
+
+  return new ImageResponse(
+    <SiteCard
+      eyebrow="About"
+      title={settings?.title ?? "Rick's Café"}
+      subtitle={
+        settings?.description ??
+        "The story behind Rick's Cafe — from tiki torches to a digital culinary world."
+      }
+    />,
+    { ...size, fonts: await ogFonts() }
+  );
+}
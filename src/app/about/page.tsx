@@ -1,4 +1,4 @@
-import { getSiteSettings } from "@/lib/sanity/queries";
+import { getSiteSettings } from "@/lib/content";
 import { AboutClient } from "./AboutClient";
 import type { SiteSettings } from "@/lib/types";
 import type { Metadata } from "next";
@@ -14,7 +14,7 @@ export default async function AboutPage() {
   try {
     settings = await getSiteSettings();
   } catch {
-    // Sanity not connected — use fallback content
+    // Content source unavailable — render the page shell only
   }
 
   return <AboutClient settings={settings} />;
@@ -0,0 +1,7 @@
+import { defineEnableDraftMode } from "next-sanity/draft-mode";
+import { sanityClient } from "@/lib/sanity/client";
+
+// Presentation calls this with a signed secret before loading the preview iframe
+export const { GET } = defineEnableDraftMode({
+  client: sanityClient.withConfig({ token: process.env.SANITY_API_READ_TOKEN }),
+});
@@ -0,0 +1,44 @@
+import { revalidateTag } from "next/cache";
+import { type NextRequest, NextResponse } from "next/server";
+import { parseBody } from "next-sanity/webhook";
+import { restaurantTag } from "@/lib/sanity/fetch";
+
+// Sanity webhook projection: {_type, "slug": slug.current, "previousSlug": before().slug.current}
+interface WebhookPayload {
+  _type: string;
+  slug?: string;
+  previousSlug?: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { body, isValidSignature } = await parseBody<WebhookPayload>(
+      req,
+      process.env.SANITY_WEBHOOK_SECRET
+    );
+
+    // null means no secret is configured — never revalidate unsigned requests
+    if (!isValidSignature) {
+      return new NextResponse("Invalid signature", { status: 401 });
+    }
+
+    if (!body?._type) {
+      return new NextResponse("Bad request", { status: 400 });
+    }
+
+    const tags = [body._type];
+    if (body._type === "restaurant") {
+      // A renamed slug leaves the old page cached too, so expire both
+      const slugs = new Set([body.slug, body.previousSlug].filter(Boolean) as string[]);
+      slugs.forEach((slug) => tags.push(restaurantTag(slug)));
+    }
+
+    // Expire immediately so the next visitor gets the published version
+    tags.forEach((tag) => revalidateTag(tag, { expire: 0 }));
+
+    return NextResponse.json({ revalidated: true, tags, now: Date.now() });
+  } catch (err) {
+    console.error("Revalidation error:", err);
+    return new NextResponse("Error", { status: 500 });
+  }
+}
@@ -0,0 +1,10 @@
+import { getFeedRestaurants } from "@/lib/content";
+import { feedItems, toAtom } from "@/lib/feed";
+
+export async function GET() {
+  const items = feedItems(await getFeedRestaurants());
+
+  return new Response(toAtom(items), {
+    headers: { "Content-Type": "application/atom+xml; charset=utf-8" },
+  });
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { X } from "lucide-react";
+import { PageTransition } from "@/components/layout/PageTransition";
+import { RadarChart } from "@/components/restaurant/RadarChart";
+import { ScoreBar } from "@/components/restaurant/ScoreBreakdown";
+import { urlFor } from "@/lib/sanity/client";
+import {
+  categoryWinners,
+  comparePath,
+  compareRestaurants,
+  compareValue,
+  MIN_COMPARE,
+} from "@/lib/compare";
+import { RANK_KEYS } from "@/lib/rankings";
+import type { Restaurant } from "@/lib/types";
+
+interface Props {
+  restaurants: Restaurant[];
+}
+
+// The radar leaves out Overall — it is the other five blended
+const RADAR_KEYS = RANK_KEYS.filter((k) => k.key !== "overall");
+
+export function CompareClient({ restaurants }: Props) {
+  const compared = compareRestaurants(restaurants);
+  const slugs = restaurants.map((r) => r.slug.current);
+
+  if (compared.length < MIN_COMPARE) {
+    return (
+      <PageTransition>
+        <div className="mx-auto max-w-3xl px-6 pb-24 pt-16 md:px-8 md:pt-36">
+          <p className="mb-4 font-mono text-xs uppercase tracking-[0.3em] text-muted">Head to Head</p>
+          <h1 className="font-heading text-5xl font-bold leading-tight md:text-7xl">Compare</h1>
+          <p className="mt-8 max-w-xl text-lg leading-relaxed text-muted">
+            Pick two to four restaurants with &ldquo;Add to compare&rdquo; on any review, then open
+            the tray to line them up here.
+          </p>
+          <Link
+            href="/rankings"
+            className="mt-8 inline-block font-mono text-xs uppercase tracking-widest text-accent transition-colors hover:text-accent-gold"
+          >
+            Browse the rankings &rarr;
+          </Link>
+        </div>
+      </PageTransition>
+    );
+  }
+
+  const columns = { gridTemplateColumns: `repeat(${compared.length}, minmax(0, 1fr))` };
+
+  return (
+    <PageTransition>
+      <div className="mx-auto max-w-6xl px-6 pb-24 pt-16 md:px-8 md:pt-36">
+        <p className="mb-4 font-mono text-xs uppercase tracking-[0.3em] text-muted">Head to Head</p>
+        <h1 className="font-heading text-4xl font-bold leading-tight md:text-6xl">
+          {compared.map((c) => c.restaurant.name).join(" vs. ")}
+        </h1>
+
+        {/* Side by side */}
+        <div className="mt-12 grid gap-4 md:gap-8" style={columns}>
+          {compared.map(({ restaurant, overallScore, color }, i) => {
+            const hero = restaurant.gallery?.[0];
+            const others = slugs.filter((s) => s !== restaurant.slug.current);
+
+            return (
+              <motion.div
+                key={restaurant._id}
+                className="min-w-0 space-y-3"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: i * 0.1, duration: 0.6, ease: [0.22, 1, 0.36, 1] }}
+              >
+                <div
+                  className="relative aspect-[4/5] overflow-hidden rounded-sm"
+                  style={{ background: restaurant.vibeColor ?? "var(--background-secondary)" }}
+                >
+                  {hero && (
+                    <Image
+                      src={urlFor(hero).width(600).height(750).quality(75).url()}
+                      alt={hero.alt || restaurant.name}
+                      fill
+                      className="object-cover"
+                      sizes="(min-width: 768px) 25vw, 50vw"
+                      placeholder={hero.lqip ? "blur" : "empty"}
+                      blurDataURL={hero.lqip ?? undefined}
+                    />
+                  )}
+                  {others.length >= MIN_COMPARE && (
+                    <Link
+                      href={comparePath(others)}
+                      className="absolute right-2 top-2 bg-background/70 p-1.5 text-foreground/70 backdrop-blur transition-colors hover:text-accent"
+                      aria-label={`Remove ${restaurant.name} from the comparison`}
+                    >
+                      <X size={14} />
+                    </Link>
+                  )}
+                </div>
+                <div className="h-0.5 w-full" style={{ background: color }} />
+                <h2 className="font-heading text-xl font-bold leading-tight md:text-2xl">
+                  <Link
+                    href={`/restaurant/${restaurant.slug.current}`}
+                    className="transition-colors hover:text-accent"
+                  >
+                    {restaurant.name}
+                  </Link>
+                </h2>
+                <div className="flex flex-wrap items-center gap-x-3 font-mono text-xs text-muted">
+                  <span>{restaurant.cuisine}</span>
+                  <span className="text-foreground/20">|</span>
+                  <span>{restaurant.priceRange}</span>
+                </div>
+                <p>
+                  <span className="font-mono text-3xl font-bold text-accent">
+                    {overallScore.toFixed(1)}
+                  </span>
+                  <span className="ml-2 text-xs uppercase tracking-widest text-muted">/ 10</span>
+                </p>
+              </motion.div>
+            );
+          })}
+        </div>
+
+        <div className="mt-20 grid gap-16 md:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)]">
+          {/* Radar */}
+          <section>
+            <h2 className="mb-8 font-heading text-3xl font-bold">The Shape of It</h2>
+            <div className="mx-auto max-w-sm">
+              <RadarChart
+                title={`Scores for ${compared.map((c) => c.restaurant.name).join(", ")}`}
+                axes={RADAR_KEYS.map((k) => k.label)}
+                series={compared.map((c) => ({
+                  label: c.restaurant.name,
+                  color: c.color,
+                  values: RADAR_KEYS.map((k) => compareValue(c, k.key)),
+                }))}
+              />
+            </div>
+          </section>
+
+          {/* Category by category */}
+          <section>
+            <h2 className="mb-8 font-heading text-3xl font-bold">Category by Category</h2>
+            <div className="space-y-10">
+              {RANK_KEYS.map(({ key, label }) => {
+                const winners = categoryWinners(compared, key);
+                const winnerNames = compared
+                  .filter((c) => winners.includes(c.restaurant._id))
+                  .map((c) => c.restaurant.name);
+
+                return (
+                  <div key={key} className="space-y-4">
+                    <div className="flex items-baseline justify-between gap-4 border-b border-foreground/5 pb-2">
+                      <h3 className="font-mono text-xs uppercase tracking-[0.3em]">{label}</h3>
+                      <p className="truncate font-mono text-[10px] uppercase tracking-widest text-accent">
+                        {winners.length === compared.length ? "Dead even" : `${winnerNames.join(" & ")} wins`}
+                      </p>
+                    </div>
+                    {compared.map((c, i) => (
+                      <ScoreBar
+                        key={c.restaurant._id}
+                        label={c.restaurant.name}
+                        score={compareValue(c, key)}
+                        delay={i * 0.1}
+                        active={winners.includes(c.restaurant._id) && winners.length < compared.length}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        </div>
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,28 @@
+import { getRestaurant } from "@/lib/content";
+import { parseCompareSlugs } from "@/lib/compare";
+import { CompareClient } from "./CompareClient";
+import type { Restaurant } from "@/lib/types";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Compare | Rick's Cafe",
+  description: "Two to four Rick's Cafe reviews, head to head.",
+};
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function ComparePage({ searchParams }: Props) {
+  const slugs = parseCompareSlugs((await searchParams).slugs);
+  let restaurants: Restaurant[] = [];
+
+  try {
+    const found = await Promise.all(slugs.map((slug) => getRestaurant(slug)));
+    restaurants = found.filter((r): r is Restaurant => r !== null);
+  } catch {
+    // Content source unavailable — nothing to compare
+  }
+
+  return <CompareClient restaurants={restaurants} />;
+}
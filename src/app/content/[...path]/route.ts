@@ -0,0 +1,39 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { type NextRequest, NextResponse } from "next/server";
+import { CONTENT_DIR } from "@/lib/content/local";
+
+// Serves images referenced by the local content/ files — nothing else in the folder
+const IMAGE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".gif": "image/gif",
+};
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path: segments } = await params;
+  const file = path.resolve(CONTENT_DIR, ...segments);
+  const type = IMAGE_TYPES[path.extname(file).toLowerCase()];
+
+  if (!type || !file.startsWith(CONTENT_DIR + path.sep)) {
+    return new NextResponse("Not found", { status: 404 });
+  }
+
+  try {
+    const data = await readFile(file);
+    return new NextResponse(data, {
+      headers: {
+        "content-type": type,
+        "cache-control": "public, max-age=3600",
+      },
+    });
+  } catch {
+    return new NextResponse("Not found", { status: 404 });
+  }
+}
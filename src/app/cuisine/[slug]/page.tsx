@@ -0,0 +1,37 @@
+import { notFound } from "next/navigation";
+import { CollectionView } from "@/components/browse/CollectionView";
+import { browseGroup, browseGroups } from "@/lib/browse";
+import { getPublishedTimelineRestaurants, getTimelineRestaurants } from "@/lib/content";
+
+interface Props {
+  params: Promise<{ slug: string }>;
+}
+
+export async function generateStaticParams() {
+  const restaurants = await getPublishedTimelineRestaurants();
+  return browseGroups(restaurants, "cuisine").map(({ slug }) => ({ slug }));
+}
+
+async function getCuisine(slug: string) {
+  return browseGroup(await getTimelineRestaurants(), "cuisine", slug);
+}
+
+export async function generateMetadata({ params }: Props) {
+  const { slug } = await params;
+  const cuisine = await getCuisine(slug);
+  if (!cuisine) return { title: "Not Found" };
+
+  return {
+    title: `${cuisine.name} | Rick's Cafe`,
+    description: `Every ${cuisine.name} spot Rick's Cafe has reviewed, ranked.`,
+  };
+}
+
+export default async function CuisinePage({ params }: Props) {
+  const { slug } = await params;
+  const cuisine = await getCuisine(slug);
+
+  if (!cuisine) notFound();
+
+  return <CollectionView kind="cuisine" name={cuisine.name} restaurants={cuisine.restaurants} />;
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { PageTransition } from "@/components/layout/PageTransition";
+import { urlFor } from "@/lib/sanity/client";
+import { formatPrice } from "@/lib/dishes";
+import { cn } from "@/lib/utils";
+import type { RankedDish } from "@/lib/types";
+
+interface Props {
+  dishes: RankedDish[];
+}
+
+// Only surface tags that group more than one dish
+const MIN_TAG_COUNT = 2;
+
+export function DishesClient({ dishes }: Props) {
+  const [mustOrderOnly, setMustOrderOnly] = useState(false);
+  const [tag, setTag] = useState<string | null>(null);
+
+  const tags = useMemo(() => {
+    const counts = new Map<string, number>();
+    dishes.forEach((d) => d.tags?.forEach((t) => counts.set(t, (counts.get(t) ?? 0) + 1)));
+    return [...counts.entries()]
+      .filter(([, count]) => count >= MIN_TAG_COUNT)
+      .sort((a, b) => b[1] - a[1])
+      .map(([t]) => t);
+  }, [dishes]);
+
+  // Ranks come from the full leaderboard so filtering never renumbers a dish
+  const rows = dishes
+    .map((dish, i) => ({ dish, rank: i + 1 }))
+    .filter(({ dish }) => !mustOrderOnly || dish.mustOrder)
+    .filter(({ dish }) => !tag || dish.tags?.includes(tag));
+
+  const chip = (active: boolean) =>
+    cn(
+      "border px-3 py-1.5 font-mono text-xs tracking-wider transition-colors",
+      active
+        ? "border-accent bg-accent/10 text-accent"
+        : "border-foreground/10 text-foreground/50 hover:border-foreground/30 hover:text-foreground/80"
+    );
+
+  return (
+    <PageTransition>
+      <div className="mx-auto max-w-5xl px-6 pb-24 pt-16 md:px-8 md:pt-36">
+        <p className="mb-4 font-mono text-xs uppercase tracking-[0.3em] text-muted">
+          {dishes.length} plates ranked
+        </p>
+        <h1 className="font-heading text-5xl font-bold leading-tight md:text-7xl">
+          The Best Dishes
+        </h1>
+
+        {/* Filters */}
+        <div className="mt-12 flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => setMustOrderOnly((v) => !v)}
+            aria-pressed={mustOrderOnly}
+            className={chip(mustOrderOnly)}
+          >
+            Must Order
+          </button>
+          {tags.map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTag(tag === t ? null : t)}
+              aria-pressed={tag === t}
+              className={chip(tag === t)}
+            >
+              #{t}
+            </button>
+          ))}
+        </div>
+
+        {/* Leaderboard */}
+        <ol className="mt-12 divide-y divide-foreground/5">
+          {rows.map(({ dish, rank }, i) => (
+            <motion.li
+              key={`${dish.restaurant.slug.current}-${dish._key}`}
+              className="grid grid-cols-[3rem_64px_1fr_auto] items-center gap-4 py-6 md:grid-cols-[4rem_96px_1fr_auto] md:gap-8"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: i * 0.04, duration: 0.5, ease: [0.22, 1, 0.36, 1] }}
+            >
+              <span
+                className={cn(
+                  "font-mono text-2xl font-bold md:text-4xl",
+                  rank <= 3 ? "text-accent" : "text-foreground/30"
+                )}
+              >
+                {String(rank).padStart(2, "0")}
+              </span>
+
+              <div className="relative aspect-square overflow-hidden rounded-sm bg-background-secondary">
+                {dish.photo?.asset && (
+                  <Image
+                    src={urlFor(dish.photo).width(192).height(192).fit("crop").quality(75).url()}
+                    alt={dish.photo.alt || dish.name}
+                    fill
+                    className="object-cover"
+                    sizes="96px"
+                    placeholder={dish.photo.lqip ? "blur" : "empty"}
+                    blurDataURL={dish.photo.lqip ?? undefined}
+                  />
+                )}
+              </div>
+
+              <div className="min-w-0 space-y-1">
+                <h2 className="font-heading text-2xl font-bold leading-tight md:text-3xl">
+                  {dish.name}
+                  {dish.mustOrder && (
+                    <span className="ml-3 align-middle font-mono text-[10px] uppercase tracking-widest text-accent">
+                      Must Order
+                    </span>
+                  )}
+                </h2>
+                <div className="flex flex-wrap items-center gap-x-3 font-mono text-xs text-muted">
+                  <Link
+                    href={`/restaurant/${dish.restaurant.slug.current}`}
+                    className="text-foreground/70 underline decoration-foreground/20 underline-offset-4 transition-colors hover:text-accent hover:decoration-accent"
+                  >
+                    {dish.restaurant.name}
+                  </Link>
+                  <span className="text-foreground/20">|</span>
+                  <span>{dish.restaurant.cuisine}</span>
+                  {formatPrice(dish.price) && (
+                    <>
+                      <span className="text-foreground/20">|</span>
+                      <span>{formatPrice(dish.price)}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <span className="font-mono text-2xl font-bold md:text-3xl">{dish.score.toFixed(1)}</span>
+            </motion.li>
+          ))}
+        </ol>
+
+        {rows.length === 0 && (
+          <p className="py-24 text-center font-heading text-2xl text-muted">
+            No plates match that filter yet.
+          </p>
+        )}
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,21 @@
+import { getBestDishes } from "@/lib/content";
+import { DishesClient } from "./DishesClient";
+import type { RankedDish } from "@/lib/types";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Best Dishes | Rick's Cafe",
+  description: "The highest-rated plates across every Rick's Cafe review.",
+};
+
+export default async function DishesPage() {
+  let dishes: RankedDish[] = [];
+
+  try {
+    dishes = await getBestDishes();
+  } catch {
+    // Content source unavailable — show an empty leaderboard
+  }
+
+  return <DishesClient dishes={dishes} />;
+}
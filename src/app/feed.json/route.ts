@@ -0,0 +1,10 @@
+import { getFeedRestaurants } from "@/lib/content";
+import { feedItems, toJsonFeed } from "@/lib/feed";
+
+export async function GET() {
+  const items = feedItems(await getFeedRestaurants());
+
+  return Response.json(toJsonFeed(items), {
+    headers: { "Content-Type": "application/feed+json; charset=utf-8" },
+  });
+}
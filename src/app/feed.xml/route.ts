@@ -0,0 +1,10 @@
+import { getFeedRestaurants } from "@/lib/content";
+import { feedItems, toRss } from "@/lib/feed";
+
+export async function GET() {
+  const items = feedItems(await getFeedRestaurants());
+
+  return new Response(toRss(items), {
+    headers: { "Content-Type": "application/rss+xml; charset=utf-8" },
+  });
+}
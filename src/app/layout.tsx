@@ -1,8 +1,12 @@
 import type { Metadata, Viewport } from "next";
 import { Cormorant_Garant, Inter, JetBrains_Mono } from "next/font/google";
+import { draftMode } from "next/headers";
+import { VisualEditing } from "next-sanity/visual-editing";
 import { Navigation } from "@/components/layout/Navigation";
 import { SmoothScroll } from "@/components/layout/SmoothScroll";
 import { CustomCursor } from "@/components/layout/CustomCursor";
+import { DisableDraftMode } from "@/components/layout/DisableDraftMode";
+import { FEED_PATHS, SITE_DESCRIPTION, SITE_NAME, SITE_URL } from "@/lib/site";
 import "./globals.css";
 
 const heading = Cormorant_Garant({
@@ -26,9 +30,18 @@ const mono = JetBrains_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Rick's Cafe | A Culinary Journey",
-  description:
-    "Meticulous restaurant reviews documenting a culinary journey — one meal at a time.",
+  metadataBase: new URL(SITE_URL),
+  title: `${SITE_NAME} | A Culinary Journey`,
+  description: SITE_DESCRIPTION,
+  openGraph: { siteName: SITE_NAME, type: "website" },
+  twitter: { card: "summary_large_image" },
+  alternates: {
+    types: {
+      "application/rss+xml": [{ url: FEED_PATHS.rss, title: `${SITE_NAME} — RSS` }],
+      "application/atom+xml": [{ url: FEED_PATHS.atom, title: `${SITE_NAME} — Atom` }],
+      "application/feed+json": [{ url: FEED_PATHS.json, title: `${SITE_NAME} — JSON Feed` }],
+    },
+  },
 };
 
 export const viewport: Viewport = {
@@ -38,11 +51,13 @@ export const viewport: Viewport = {
   viewportFit: "cover",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const { isEnabled: isDraftMode } = await draftMode();
+
   return (
     <html lang="en" className={`${heading.variable} ${sans.variable} ${mono.variable}`}>
       <body className="antialiased">
@@ -53,6 +68,12 @@ export default function RootLayout({
             {children}
           </main>
         </SmoothScroll>
+        {isDraftMode && (
+          <>
+            <VisualEditing />
+            <DisableDraftMode />
+          </>
+        )}
       </body>
     </html>
   );
@@ -0,0 +1,29 @@
+"use client";
+
+import { PageTransition } from "@/components/layout/PageTransition";
+import { HoustonMap } from "@/components/map/HoustonMap";
+import { hasCoordinates } from "@/lib/geo";
+import type { TimelineRestaurant } from "@/lib/types";
+
+interface Props {
+  restaurants: TimelineRestaurant[];
+}
+
+export function MapClient({ restaurants }: Props) {
+  const plotted = restaurants.filter(hasCoordinates).length;
+
+  return (
+    <PageTransition>
+      <div className="mx-auto max-w-7xl px-4 pb-24 pt-16 md:px-8 md:pt-36">
+        <p className="mb-4 font-mono text-xs uppercase tracking-[0.3em] text-muted">
+          {plotted} {plotted === 1 ? "spot" : "spots"} &middot; Houston, TX
+        </p>
+        <h1 className="mb-12 font-heading text-5xl font-bold leading-tight md:text-7xl">
+          The Map
+        </h1>
+
+        <HoustonMap restaurants={restaurants} />
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,21 @@
+import { getTimelineRestaurants } from "@/lib/content";
+import { MapClient } from "./MapClient";
+import type { TimelineRestaurant } from "@/lib/types";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Map | Rick's Cafe",
+  description: "Every Rick's Cafe review plotted on a neon map of Houston.",
+};
+
+export default async function MapPage() {
+  let restaurants: TimelineRestaurant[] = [];
+
+  try {
+    restaurants = await getTimelineRestaurants();
+  } catch {
+    // Content source unavailable — render an empty map
+  }
+
+  return <MapClient restaurants={restaurants} />;
+}
@@ -0,0 +1,43 @@
+import { notFound } from "next/navigation";
+import { CollectionView } from "@/components/browse/CollectionView";
+import { browseGroup, browseGroups } from "@/lib/browse";
+import { getPublishedTimelineRestaurants, getTimelineRestaurants } from "@/lib/content";
+
+interface Props {
+  params: Promise<{ slug: string }>;
+}
+
+export async function generateStaticParams() {
+  const restaurants = await getPublishedTimelineRestaurants();
+  return browseGroups(restaurants, "neighborhood").map(({ slug }) => ({ slug }));
+}
+
+async function getNeighborhood(slug: string) {
+  return browseGroup(await getTimelineRestaurants(), "neighborhood", slug);
+}
+
+export async function generateMetadata({ params }: Props) {
+  const { slug } = await params;
+  const neighborhood = await getNeighborhood(slug);
+  if (!neighborhood) return { title: "Not Found" };
+
+  return {
+    title: `${neighborhood.name} | Rick's Cafe`,
+    description: `Every restaurant Rick's Cafe has reviewed in ${neighborhood.name}, ranked.`,
+  };
+}
+
+export default async function NeighborhoodPage({ params }: Props) {
+  const { slug } = await params;
+  const neighborhood = await getNeighborhood(slug);
+
+  if (!neighborhood) notFound();
+
+  return (
+    <CollectionView
+      kind="neighborhood"
+      name={neighborhood.name}
+      restaurants={neighborhood.restaurants}
+    />
+  );
+}
@@ -0,0 +1,15 @@
+import { ImageResponse } from "next/og";
+import { SiteCard } from "@/components/og/ShareCard";
+import { OG_SIZE, ogFonts } from "@/lib/og";
+import { SITE_DESCRIPTION } from "@/lib/site";
+
+export const alt = "Rick's Cafe — a Houston food journey";
+export const size = OG_SIZE;
+export const contentType = "image/png";
+
+export default async function Image() {
+  return new ImageResponse(
+    <SiteCard eyebrow="A Houston Food Journey" title="Rick's Café" subtitle={SITE_DESCRIPTION} />,
+    { ...size, fonts: await ogFonts() }
+  );
+}
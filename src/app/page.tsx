@@ -1,4 +1,4 @@
-import { getTimelineRestaurants } from "@/lib/sanity/queries";
+import { getTimelineRestaurants } from "@/lib/content";
 import { HomeClient } from "./HomeClient";
 import type { TimelineRestaurant } from "@/lib/types";
 
@@ -8,7 +8,7 @@ export default async function Home() {
   try {
     restaurants = await getTimelineRestaurants();
   } catch {
-    // Sanity not connected yet — render with mock data
+    // Content source unavailable — render an empty timeline
   }
 
   return <HomeClient restaurants={restaurants} />;
@@ -0,0 +1,222 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { PageTransition } from "@/components/layout/PageTransition";
+import { CompactScoreBars } from "@/components/restaurant/ScoreBreakdown";
+import { browseGroups, PRICE_RANGES } from "@/lib/browse";
+import {
+  RANK_KEYS,
+  rankingYear,
+  rankRestaurants,
+  toRankingParams,
+  type RankingOptions,
+} from "@/lib/rankings";
+import { cn } from "@/lib/utils";
+import type { TimelineRestaurant } from "@/lib/types";
+
+interface Props {
+  restaurants: TimelineRestaurant[];
+  initialOptions: RankingOptions;
+}
+
+const chip = (active: boolean) =>
+  cn(
+    "border px-3 py-1.5 font-mono text-xs tracking-wider transition-colors",
+    active
+      ? "border-accent bg-accent/10 text-accent"
+      : "border-foreground/10 text-foreground/50 hover:border-foreground/30 hover:text-foreground/80"
+  );
+
+function ChipRow({
+  label,
+  options,
+  selected,
+  onSelect,
+}: {
+  label: string;
+  options: { value: string; label: string }[];
+  selected: string | null;
+  onSelect: (value: string | null) => void;
+}) {
+  if (options.length < 2) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="mr-2 w-16 font-mono text-xs uppercase tracking-widest text-muted">
+        {label}
+      </span>
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onSelect(selected === option.value ? null : option.value)}
+          aria-pressed={selected === option.value}
+          className={chip(selected === option.value)}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function RankingsClient({ restaurants, initialOptions }: Props) {
+  const [options, setOptions] = useState<RankingOptions>(initialOptions);
+
+  const facets = useMemo(
+    () => ({
+      cuisines: browseGroups(restaurants, "cuisine")
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((g) => ({ value: g.slug, label: g.name })),
+      prices: PRICE_RANGES.filter((p) => restaurants.some((r) => r.priceRange === p)).map((p) => ({
+        value: p,
+        label: p,
+      })),
+      years: [...new Set(restaurants.map(rankingYear))]
+        .sort()
+        .reverse()
+        .map((y) => ({ value: y, label: y })),
+    }),
+    [restaurants]
+  );
+
+  const rows = useMemo(() => rankRestaurants(restaurants, options), [restaurants, options]);
+
+  // Mirror the options into the URL so any leaderboard can be shared
+  useEffect(() => {
+    const query = toRankingParams(options).toString();
+    window.history.replaceState(null, "", query ? `/rankings?${query}` : "/rankings");
+  }, [options]);
+
+  const set = <K extends keyof RankingOptions>(key: K, value: RankingOptions[K]) =>
+    setOptions((prev) => ({ ...prev, [key]: value }));
+
+  const sortLabel = RANK_KEYS.find((k) => k.key === options.sort)?.label;
+
+  return (
+    <PageTransition>
+      <div className="mx-auto max-w-5xl px-6 pb-24 pt-16 md:px-8 md:pt-36">
+        <p className="mb-4 font-mono text-xs uppercase tracking-[0.3em] text-muted">
+          {restaurants.length} restaurants ranked
+        </p>
+        <h1 className="font-heading text-5xl font-bold leading-tight md:text-7xl">The Rankings</h1>
+
+        {/* Sort */}
+        <div className="mt-12 flex flex-wrap items-center gap-2">
+          <span className="mr-2 w-16 font-mono text-xs uppercase tracking-widest text-muted">
+            Sort
+          </span>
+          {RANK_KEYS.map(({ key, label }) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => set("sort", key)}
+              aria-pressed={options.sort === key}
+              className={chip(options.sort === key)}
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => set("perDollar", !options.perDollar)}
+            aria-pressed={options.perDollar}
+            className={cn(chip(options.perDollar), "md:ml-auto")}
+          >
+            Best value per $
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="mt-4 space-y-4">
+          <ChipRow
+            label="Cuisine"
+            options={facets.cuisines}
+            selected={options.cuisine}
+            onSelect={(v) => set("cuisine", v)}
+          />
+          <ChipRow
+            label="Price"
+            options={facets.prices}
+            selected={options.price}
+            onSelect={(v) => set("price", v)}
+          />
+          <ChipRow
+            label="Year"
+            options={facets.years}
+            selected={options.year}
+            onSelect={(v) => set("year", v)}
+          />
+        </div>
+
+        {/* Leaderboard */}
+        <ol className="mt-12 divide-y divide-foreground/5" aria-live="polite">
+          {rows.map(({ restaurant, rank, score }, i) => (
+            <motion.li
+              key={restaurant._id}
+              layout
+              className="grid grid-cols-[3rem_1fr_auto] items-center gap-4 py-6 md:grid-cols-[4rem_1fr_280px_auto] md:gap-8"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: i * 0.04, duration: 0.5, ease: [0.22, 1, 0.36, 1] }}
+            >
+              <span
+                className={cn(
+                  "font-mono text-2xl font-bold md:text-4xl",
+                  rank <= 3 ? "text-accent" : "text-foreground/30"
+                )}
+              >
+                {String(rank).padStart(2, "0")}
+              </span>
+
+              <div className="min-w-0 space-y-1">
+                <h2 className="font-heading text-2xl font-bold leading-tight md:text-3xl">
+                  <Link
+                    href={`/restaurant/${restaurant.slug.current}`}
+                    className="transition-colors hover:text-accent"
+                  >
+                    {restaurant.name}
+                  </Link>
+                </h2>
+                <div className="flex flex-wrap items-center gap-x-3 font-mono text-xs text-muted">
+                  <span>{restaurant.cuisine}</span>
+                  <span className="text-foreground/20">|</span>
+                  <span>{restaurant.priceRange}</span>
+                  {restaurant.neighborhood && (
+                    <>
+                      <span className="text-foreground/20">|</span>
+                      <span>{restaurant.neighborhood}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="col-span-3 col-start-1 row-start-2 md:col-span-1 md:col-start-3 md:row-start-1">
+                <CompactScoreBars
+                  scores={restaurant.scores}
+                  rickFactor={restaurant.rickFactorScore}
+                  highlight={options.sort}
+                />
+              </div>
+
+              <div className="text-right">
+                <span className="font-mono text-2xl font-bold md:text-3xl">{score.toFixed(1)}</span>
+                <p className="font-mono text-[10px] uppercase tracking-widest text-muted">
+                  {options.perDollar ? `${sortLabel} per $` : sortLabel}
+                </p>
+              </div>
+            </motion.li>
+          ))}
+        </ol>
+
+        {rows.length === 0 && (
+          <p className="py-24 text-center font-heading text-2xl text-muted">
+            Nothing on the menu matches that.
+          </p>
+        )}
+      </div>
+    </PageTransition>
+  );
+}
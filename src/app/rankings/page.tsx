@@ -0,0 +1,28 @@
+import { getTimelineRestaurants } from "@/lib/content";
+import { parseRankingParams } from "@/lib/rankings";
+import { RankingsClient } from "./RankingsClient";
+import type { TimelineRestaurant } from "@/lib/types";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Rankings | Rick's Cafe",
+  description: "Every Rick's Cafe review ranked by overall score, category, Rick Factor or value per dollar.",
+};
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function RankingsPage({ searchParams }: Props) {
+  let restaurants: TimelineRestaurant[] = [];
+
+  try {
+    restaurants = await getTimelineRestaurants();
+  } catch {
+    // Content source unavailable — show an empty leaderboard
+  }
+
+  const initialOptions = parseRankingParams(await searchParams);
+
+  return <RankingsClient restaurants={restaurants} initialOptions={initialOptions} />;
+}
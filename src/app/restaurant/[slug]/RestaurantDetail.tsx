@@ -5,19 +5,26 @@ import { HeroImage } from "@/components/restaurant/HeroImage";
 import { StatsBar } from "@/components/restaurant/StatsBar";
 import { ScoreBreakdown } from "@/components/restaurant/ScoreBreakdown";
 import { Gallery } from "@/components/restaurant/Gallery";
-import type { Restaurant } from "@/lib/types";
+import { WhatToOrder } from "@/components/restaurant/WhatToOrder";
+import { CompareTray } from "@/components/restaurant/CompareTray";
+import { RichText } from "@/components/content/RichText";
+import { restaurantScores, SCORE_STRATEGY_LABELS } from "@/lib/visits";
+import type { GalleryItem, Restaurant, ScoreProfile } from "@/lib/types";
 
 interface Props {
   restaurant: Restaurant;
+  collectionAverage?: ScoreProfile | null;
 }
 
-export function RestaurantDetail({ restaurant }: Props) {
-  const overallScore =
-    (restaurant.scores.taste +
-      restaurant.scores.vibe +
-      restaurant.scores.service +
-      restaurant.scores.value) /
-    4;
+export function RestaurantDetail({ restaurant, collectionAverage }: Props) {
+  const { scores, overallScore, visits } = restaurantScores(restaurant);
+  const strategy = restaurant.scoreStrategy ?? "latest";
+  const returnVisits = visits.slice(1);
+  // The hero is already on screen; the review's before/after pairs join the rest of the photos
+  const galleryItems: GalleryItem[] = [
+    ...(restaurant.gallery?.slice(1) ?? []),
+    ...(restaurant.review?.filter((block) => block._type === "beforeAfter") ?? []),
+  ];
 
   return (
     <div>
@@ -35,6 +42,7 @@ export function RestaurantDetail({ restaurant }: Props) {
         priceRange={restaurant.priceRange}
         cuisine={restaurant.cuisine}
         location={restaurant.location}
+        vibeColor={restaurant.vibeColor}
       />
 
       {/* Content */}
@@ -61,15 +69,44 @@ export function RestaurantDetail({ restaurant }: Props) {
               })}
             </p>
 
-            {/* Full Review (Portable Text would be rendered here) */}
-            <div className="prose prose-lg max-w-none">
-              {/* When Sanity is connected, use PortableText component here */}
-              {typeof restaurant.review === "string" ? (
-                <p>{restaurant.review}</p>
-              ) : (
-                <p className="text-muted">Full review content renders here via Portable Text.</p>
-              )}
-            </div>
+            {/* Full Review */}
+            {restaurant.review?.length ? <RichText value={restaurant.review} /> : null}
+
+            {/* Return visits */}
+            {returnVisits.length > 0 && (
+              <section className="mt-16 border-t border-foreground/5 pt-12">
+                <h2 className="mb-2 font-heading text-3xl font-bold">Back Again</h2>
+                <p className="mb-10 font-mono text-xs uppercase tracking-widest text-muted">
+                  {visits.length} visits &middot; Score shown: {SCORE_STRATEGY_LABELS[strategy]}
+                </p>
+
+                <div className="space-y-12">
+                  {returnVisits.map((visit, i) => (
+                    <article key={visit._key ?? visit.date} className="space-y-4">
+                      <div className="flex items-baseline justify-between">
+                        <p className="font-mono text-xs uppercase tracking-[0.3em] text-accent-gold">
+                          Visit {i + 2} &middot;{" "}
+                          {new Date(visit.date).toLocaleDateString("en-US", {
+                            year: "numeric",
+                            month: "long",
+                            day: "numeric",
+                          })}
+                        </p>
+                        <span className="font-mono text-xl font-bold">
+                          {visit.overallScore.toFixed(1)}
+                        </span>
+                      </div>
+                      {visit.notes && (
+                        <p className="text-lg leading-relaxed text-foreground/85">{visit.notes}</p>
+                      )}
+                      {visit.photos && visit.photos.length > 0 && (
+                        <Gallery images={visit.photos} />
+                      )}
+                    </article>
+                  ))}
+                </div>
+              </section>
+            )}
           </motion.div>
 
           {/* Sidebar: Score Breakdown */}
@@ -78,17 +115,35 @@ export function RestaurantDetail({ restaurant }: Props) {
             animate={{ opacity: 1, x: 0 }}
             transition={{ delay: 0.5 }}
           >
-            <div className="sticky top-36">
+            <div className="sticky top-36 space-y-8">
               <ScoreBreakdown
-                scores={restaurant.scores}
+                scores={scores}
                 rickFactor={restaurant.rickFactor}
+                rubric={restaurant.rubric}
+                currentRubricVersion={restaurant.currentRubricVersion}
+                history={visits.length > 1 ? visits.map((v) => v.scores) : undefined}
+                average={collectionAverage}
               />
+              <CompareTray restaurant={{ slug: restaurant.slug.current, name: restaurant.name }} />
             </div>
           </motion.aside>
         </div>
 
+        {/* What to Order */}
+        {restaurant.dishes && restaurant.dishes.length > 0 && (
+          <motion.section
+            className="mt-20"
+            initial={{ opacity: 0 }}
+            whileInView={{ opacity: 1 }}
+            viewport={{ once: true }}
+          >
+            <h2 className="mb-8 font-heading text-3xl font-bold">What to Order</h2>
+            <WhatToOrder dishes={restaurant.dishes} />
+          </motion.section>
+        )}
+
         {/* Gallery Section */}
-        {restaurant.gallery && restaurant.gallery.length > 1 && (
+        {galleryItems.length > 0 && (
           <motion.section
             className="mt-20"
             initial={{ opacity: 0 }}
@@ -96,7 +151,7 @@ export function RestaurantDetail({ restaurant }: Props) {
             viewport={{ once: true }}
           >
             <h2 className="mb-8 font-heading text-3xl font-bold">The Experience</h2>
-            <Gallery images={restaurant.gallery.slice(1)} />
+            <Gallery images={galleryItems} deepLink />
           </motion.section>
         )}
       </div>
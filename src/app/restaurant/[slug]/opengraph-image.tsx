@@ -0,0 +1,36 @@
+import { notFound } from "next/navigation";
+import { ImageResponse } from "next/og";
+import { RestaurantCard } from "@/components/og/ShareCard";
+import { getRestaurant } from "@/lib/content";
+import { OG_SIZE, ogFonts, ogImageSrc } from "@/lib/og";
+import { restaurantScores } from "@/lib/visits";
+
+export const alt = "Rick's Cafe review score card";
+export const size = OG_SIZE;
+export const contentType = "image/png";
+
+interface Props {
+  params: Promise<{ slug: string }>;
+}
+
+export default async function Image({ params }: Props) {
+  const { slug } = await params;
+  const [restaurant, fonts] = await Promise.all([getRestaurant(slug), ogFonts()]);
+
+  if (!restaurant) notFound();
+
+  const { scores, overallScore } = restaurantScores(restaurant);
+
+  return new ImageResponse(
+    <RestaurantCard
+      name={restaurant.name}
+      cuisine={restaurant.cuisine}
+      priceRange={restaurant.priceRange}
+      neighborhood={restaurant.location.neighborhood}
+      overallScore={overallScore}
+      scores={scores}
+      heroSrc={await ogImageSrc(restaurant.gallery?.[0])}
+    />,
+    { ...size, fonts }
+  );
+}
@@ -1,5 +1,8 @@
 import { notFound } from "next/navigation";
-import { getRestaurant, getAllRestaurantSlugs } from "@/lib/sanity/queries";
+import { getRestaurant, getAllRestaurantSlugs, getTimelineRestaurants } from "@/lib/content";
+import { restaurantJsonLd } from "@/lib/jsonld";
+import { averageProfile } from "@/lib/scoring";
+import { SITE_NAME } from "@/lib/site";
 import { RestaurantDetail } from "./RestaurantDetail";
 import type { Restaurant } from "@/lib/types";
 
@@ -17,17 +20,38 @@ export async function generateMetadata({ params }: Props) {
   const restaurant: Restaurant | null = await getRestaurant(slug);
   if (!restaurant) return { title: "Not Found" };
 
+  const title = `${restaurant.name} | Rick's Cafe`;
+
   return {
-    title: `${restaurant.name} | Rick's Cafe`,
+    title,
     description: restaurant.summary,
+    openGraph: { title, description: restaurant.summary, siteName: SITE_NAME, type: "article" },
+    twitter: { card: "summary_large_image", title, description: restaurant.summary },
   };
 }
 
 export default async function RestaurantPage({ params }: Props) {
   const { slug } = await params;
-  const restaurant: Restaurant | null = await getRestaurant(slug);
+  const [restaurant, collection] = await Promise.all([
+    getRestaurant(slug),
+    getTimelineRestaurants(),
+  ]);
 
   if (!restaurant) notFound();
 
-  return <RestaurantDetail restaurant={restaurant} />;
+  // A one-review collection has no "typical" to compare against
+  const average = collection.length > 1 ? averageProfile(collection) : null;
+
+  return (
+    <>
+      <script
+        type="application/ld+json"
+        // Escape "<" so review text can't close the script tag
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(restaurantJsonLd(restaurant)).replace(/</g, "\\u003c"),
+        }}
+      />
+      <RestaurantDetail restaurant={restaurant} collectionAverage={average} />
+    </>
+  );
 }
@@ -0,0 +1,14 @@
+import type { MetadataRoute } from "next";
+import { absoluteUrl } from "@/lib/site";
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      // The embedded Studio and the draft mode / webhook endpoints aren't pages
+      disallow: ["/studio", "/api/"],
+    },
+    sitemap: absoluteUrl("/sitemap.xml"),
+  };
+}
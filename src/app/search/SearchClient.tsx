@@ -0,0 +1,283 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { motion, AnimatePresence } from "framer-motion";
+import { Search, X } from "lucide-react";
+import { PageTransition } from "@/components/layout/PageTransition";
+import { urlFor } from "@/lib/sanity/client";
+import {
+  defaultFilters,
+  filterRestaurants,
+  getArea,
+  getFacets,
+  toSearchParams,
+  type SearchFilters,
+} from "@/lib/search";
+import { cn } from "@/lib/utils";
+import type { SearchRestaurant } from "@/lib/types";
+
+interface Props {
+  restaurants: SearchRestaurant[];
+  initialFilters: SearchFilters;
+}
+
+type ListFacet = "price" | "area" | "year";
+
+function FacetGroup({
+  label,
+  options,
+  selected,
+  onToggle,
+}: {
+  label: string;
+  options: string[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  if (options.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <p className="font-mono text-xs uppercase tracking-widest text-muted">{label}</p>
+      <div className="flex flex-wrap gap-2">
+        {options.map((option) => {
+          const active = selected.includes(option);
+          return (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onToggle(option)}
+              aria-pressed={active}
+              className={cn(
+                "border px-3 py-1.5 font-mono text-xs tracking-wider transition-colors",
+                active
+                  ? "border-accent bg-accent/10 text-accent"
+                  : "border-foreground/10 text-foreground/50 hover:border-foreground/30 hover:text-foreground/80"
+              )}
+            >
+              {option}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function ResultCard({ restaurant }: { restaurant: SearchRestaurant }) {
+  const area = getArea(restaurant);
+
+  return (
+    <Link
+      href={`/restaurant/${restaurant.slug.current}`}
+      className="group grid grid-cols-[96px_1fr] gap-6 py-8 md:grid-cols-[160px_1fr_auto]"
+      data-cursor="magnetic"
+    >
+      <div
+        className="relative aspect-[4/5] overflow-hidden rounded-sm"
+        style={{ background: restaurant.vibeColor ?? "var(--background-secondary)" }}
+      >
+        {restaurant.heroImage && (
+          <Image
+            src={urlFor(restaurant.heroImage).width(320).height(400).quality(75).url()}
+            alt={restaurant.heroImage.alt || restaurant.name}
+            fill
+            className="object-cover transition-transform duration-700 group-hover:scale-105"
+            sizes="160px"
+            placeholder={restaurant.heroImage.lqip ? "blur" : "empty"}
+            blurDataURL={restaurant.heroImage.lqip ?? undefined}
+          />
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <p className="font-mono text-xs uppercase tracking-[0.3em] text-accent-gold">
+          {new Date(restaurant.dateVisited).toLocaleDateString("en-US", {
+            year: "numeric",
+            month: "long",
+          })}
+        </p>
+        <h2 className="font-heading text-3xl font-bold leading-tight transition-colors group-hover:text-accent md:text-4xl">
+          {restaurant.name}
+        </h2>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 font-mono text-sm text-muted">
+          <span>{restaurant.cuisine}</span>
+          <span className="text-foreground/20">|</span>
+          <span>{restaurant.priceRange}</span>
+          {area && (
+            <>
+              <span className="text-foreground/20">|</span>
+              <span>{area}</span>
+            </>
+          )}
+        </div>
+        <p className="max-w-xl leading-relaxed text-muted">{restaurant.summary}</p>
+      </div>
+
+      {restaurant.overallScore != null && (
+        <div className="col-start-2 flex items-baseline gap-2 md:col-start-3">
+          <span className="font-mono text-3xl font-bold text-accent">
+            {restaurant.overallScore.toFixed(1)}
+          </span>
+          <span className="text-xs uppercase tracking-widest text-muted">/ 10</span>
+        </div>
+      )}
+    </Link>
+  );
+}
+
+export function SearchClient({ restaurants, initialFilters }: Props) {
+  const [filters, setFilters] = useState<SearchFilters>(initialFilters);
+
+  const facets = useMemo(() => getFacets(restaurants), [restaurants]);
+  const results = useMemo(
+    () => filterRestaurants(restaurants, filters),
+    [restaurants, filters]
+  );
+
+  // Mirror the filters into the URL so any search can be shared
+  useEffect(() => {
+    const query = toSearchParams(filters).toString();
+    window.history.replaceState(null, "", query ? `/search?${query}` : "/search");
+  }, [filters]);
+
+  const toggle = (facet: ListFacet, value: string) =>
+    setFilters((prev) => ({
+      ...prev,
+      [facet]: prev[facet].includes(value)
+        ? prev[facet].filter((v) => v !== value)
+        : [...prev[facet], value],
+    }));
+
+  const isFiltered = toSearchParams(filters).toString() !== "";
+
+  return (
+    <PageTransition>
+      <div className="mx-auto max-w-6xl px-6 pb-24 pt-16 md:px-8 md:pt-36">
+        {/* Header */}
+        <p className="mb-4 font-mono text-xs uppercase tracking-[0.3em] text-muted">
+          The Archive
+        </p>
+        <h1 className="font-heading text-5xl font-bold leading-tight md:text-7xl">
+          Search
+        </h1>
+
+        {/* Query */}
+        <label className="mt-12 flex items-center gap-4 border-b border-foreground/10 pb-4 transition-colors focus-within:border-accent">
+          <Search size={20} className="text-muted" />
+          <input
+            type="search"
+            value={filters.q}
+            onChange={(e) => setFilters((prev) => ({ ...prev, q: e.target.value }))}
+            placeholder="Brisket, mole, Montrose, fried goat..."
+            className="w-full bg-transparent font-heading text-2xl outline-none placeholder:text-foreground/20 md:text-3xl"
+            aria-label="Search reviews"
+          />
+        </label>
+
+        <div className="mt-12 grid gap-12 md:grid-cols-[240px_1fr]">
+          {/* Facets */}
+          <aside className="space-y-8">
+            <FacetGroup
+              label="Price"
+              options={facets.prices}
+              selected={filters.price}
+              onToggle={(v) => toggle("price", v)}
+            />
+            <FacetGroup
+              label="Neighborhood"
+              options={facets.areas}
+              selected={filters.area}
+              onToggle={(v) => toggle("area", v)}
+            />
+            <FacetGroup
+              label="Year Visited"
+              options={facets.years}
+              selected={filters.year}
+              onToggle={(v) => toggle("year", v)}
+            />
+
+            <div className="space-y-3">
+              <p className="font-mono text-xs uppercase tracking-widest text-muted">
+                Score {filters.minScore.toFixed(1)} &ndash; {filters.maxScore.toFixed(1)}
+              </p>
+              <input
+                type="range"
+                min={0}
+                max={10}
+                step={0.5}
+                value={filters.minScore}
+                onChange={(e) =>
+                  setFilters((prev) => ({
+                    ...prev,
+                    minScore: Math.min(Number(e.target.value), prev.maxScore),
+                  }))
+                }
+                className="w-full accent-[var(--accent)]"
+                aria-label="Minimum score"
+              />
+              <input
+                type="range"
+                min={0}
+                max={10}
+                step={0.5}
+                value={filters.maxScore}
+                onChange={(e) =>
+                  setFilters((prev) => ({
+                    ...prev,
+                    maxScore: Math.max(Number(e.target.value), prev.minScore),
+                  }))
+                }
+                className="w-full accent-[var(--accent)]"
+                aria-label="Maximum score"
+              />
+            </div>
+
+            {isFiltered && (
+              <button
+                type="button"
+                onClick={() => setFilters(defaultFilters)}
+                className="flex items-center gap-2 font-mono text-xs uppercase tracking-widest text-accent transition-colors hover:text-accent-gold"
+              >
+                <X size={14} />
+                Clear all
+              </button>
+            )}
+          </aside>
+
+          {/* Results */}
+          <section aria-live="polite">
+            <p className="font-mono text-xs uppercase tracking-widest text-muted">
+              {results.length} {results.length === 1 ? "review" : "reviews"}
+            </p>
+
+            <div className="divide-y divide-foreground/5">
+              <AnimatePresence initial={false}>
+                {results.map((restaurant) => (
+                  <motion.div
+                    key={restaurant._id}
+                    layout
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0 }}
+                    transition={{ duration: 0.3, ease: [0.22, 1, 0.36, 1] }}
+                  >
+                    <ResultCard restaurant={restaurant} />
+                  </motion.div>
+                ))}
+              </AnimatePresence>
+            </div>
+
+            {results.length === 0 && (
+              <p className="py-24 text-center font-heading text-2xl text-muted">
+                Nothing on the menu matches that.
+              </p>
+            )}
+          </section>
+        </div>
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,33 @@
+import { getSearchRestaurants } from "@/lib/content";
+import { parseSearchParams } from "@/lib/search";
+import { SearchClient } from "./SearchClient";
+import type { SearchRestaurant } from "@/lib/types";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Search | Rick's Cafe",
+  description: "Search every Rick's Cafe review by dish, cuisine, neighborhood, score and year.",
+};
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function SearchPage({ searchParams }: Props) {
+  let restaurants: SearchRestaurant[] = [];
+
+  try {
+    restaurants = await getSearchRestaurants();
+  } catch {
+    // Content source unavailable — search over nothing
+  }
+
+  const initialFilters = parseSearchParams(await searchParams);
+
+  return (
+    <SearchClient
+      restaurants={restaurants}
+      initialFilters={initialFilters}
+    />
+  );
+}
@@ -0,0 +1,39 @@
+import type { MetadataRoute } from "next";
+import { getAllRestaurantSlugs, getTimelineRestaurants } from "@/lib/content";
+import { browseGroups, type BrowseKind } from "@/lib/browse";
+import { recapYears } from "@/lib/recap";
+import { absoluteUrl } from "@/lib/site";
+
+const LISTING_PATHS = ["/", "/rankings", "/dishes", "/map", "/search", "/about"];
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const [slugs, restaurants] = await Promise.all([
+    getAllRestaurantSlugs(),
+    getTimelineRestaurants(),
+  ]);
+
+  const updatedAt = new Map(slugs.map((s) => [s.slug, new Date(s._updatedAt)]));
+  // A listing changes whenever one of the restaurants on it does
+  const latest = (group: { slug: { current: string } }[]) =>
+    new Date(Math.max(0, ...group.map((r) => updatedAt.get(r.slug.current)?.getTime() ?? 0)));
+
+  const browse = (kind: BrowseKind) =>
+    browseGroups(restaurants, kind).map((group) => ({
+      url: absoluteUrl(`/${kind}/${group.slug}`),
+      lastModified: latest(group.restaurants),
+    }));
+
+  return [
+    ...LISTING_PATHS.map((path) => ({ url: absoluteUrl(path), lastModified: latest(restaurants) })),
+    ...slugs.map((s) => ({
+      url: absoluteUrl(`/restaurant/${s.slug}`),
+      lastModified: new Date(s._updatedAt),
+    })),
+    ...browse("cuisine"),
+    ...browse("neighborhood"),
+    ...recapYears(restaurants).map((year) => ({
+      url: absoluteUrl(`/year/${year}`),
+      lastModified: latest(restaurants.filter((r) => r.visitHistory.some((v) => v.date.startsWith(year)))),
+    })),
+  ];
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import gsap from "gsap";
+import { ScrollTrigger } from "gsap/ScrollTrigger";
+import { motion } from "framer-motion";
+import { PageTransition } from "@/components/layout/PageTransition";
+import { ProgressBar } from "@/components/effects/ProgressBar";
+import { ScoreCounter } from "@/components/effects/ScoreCounter";
+import { TextScramble } from "@/components/effects/TextScramble";
+import { browsePath } from "@/lib/browse";
+import { spendLabel, type YearRecap } from "@/lib/recap";
+import { cn } from "@/lib/utils";
+
+gsap.registerPlugin(ScrollTrigger);
+
+interface Props {
+  recap: YearRecap;
+  years: string[];
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function Slide({ eyebrow, children }: { eyebrow: string; children: React.ReactNode }) {
+  return (
+    <section className="flex flex-shrink-0 flex-col justify-center gap-8 px-6 py-16 md:h-screen md:w-[70vw] md:px-16 md:py-0">
+      <p className="font-mono text-xs uppercase tracking-[0.3em] text-accent-gold">{eyebrow}</p>
+      {children}
+    </section>
+  );
+}
+
+function MonthChart({ months }: { months: number[] }) {
+  const max = Math.max(...months, 1);
+
+  return (
+    <div
+      className="flex h-48 max-w-2xl items-end gap-2 md:h-64 md:gap-3"
+      role="img"
+      aria-label={months.map((count, i) => `${MONTHS[i]}: ${count}`).join(", ")}
+    >
+      {months.map((count, i) => (
+        <div key={MONTHS[i]} className="flex h-full flex-1 flex-col items-center gap-2">
+          <div className="flex w-full flex-1 items-end bg-foreground/5">
+            <motion.div
+              className={cn("w-full", count === max ? "bg-accent" : "bg-foreground")}
+              initial={{ height: 0 }}
+              whileInView={{ height: `${(count / max) * 100}%` }}
+              viewport={{ once: true }}
+              transition={{ duration: 0.8, delay: i * 0.05, ease: [0.22, 1, 0.36, 1] }}
+            />
+          </div>
+          <span className="font-mono text-[10px] uppercase text-muted">{MONTHS[i].charAt(0)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function YearClient({ recap, years }: Props) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [progress, setProgress] = useState(0);
+  const [isMobile, setIsMobile] = useState(false);
+
+  useEffect(() => {
+    const checkMobile = () => setIsMobile(window.innerWidth < 768);
+    checkMobile();
+    window.addEventListener("resize", checkMobile);
+    return () => window.removeEventListener("resize", checkMobile);
+  }, []);
+
+  // Same pinned horizontal scroll as the homepage timeline
+  useEffect(() => {
+    if (isMobile) return;
+
+    const container = containerRef.current;
+    const track = trackRef.current;
+    if (!container || !track) return;
+
+    const totalScroll = track.scrollWidth - window.innerWidth;
+
+    const tween = gsap.to(track, {
+      x: -totalScroll,
+      ease: "none",
+      scrollTrigger: {
+        trigger: container,
+        pin: true,
+        scrub: 1,
+        end: () => `+=${totalScroll}`,
+        onUpdate: (self) => setProgress(self.progress),
+      },
+    });
+
+    return () => {
+      tween.kill();
+      ScrollTrigger.getAll().forEach((t) => t.kill());
+    };
+  }, [recap, isMobile]);
+
+  const spend = spendLabel(recap.averageSpend);
+  const busiest = recap.months.indexOf(Math.max(...recap.months));
+
+  return (
+    <PageTransition>
+      {/* Intro */}
+      <section className="flex h-screen flex-col items-center justify-center px-6 text-center">
+        <p className="mb-6 font-mono text-xs uppercase tracking-[0.4em] text-muted">
+          Rick&apos;s Caf&eacute; Wrapped
+        </p>
+        <TextScramble
+          text={recap.year}
+          as="h1"
+          className="font-heading text-8xl font-bold leading-none md:text-[12rem]"
+        />
+        <p className="mt-8 font-mono text-sm uppercase tracking-widest text-muted">
+          {recap.totalVisits} {recap.totalVisits === 1 ? "visit" : "visits"} &middot;{" "}
+          {recap.restaurantCount} {recap.restaurantCount === 1 ? "restaurant" : "restaurants"}
+        </p>
+      </section>
+
+      <div ref={containerRef} className="relative md:overflow-hidden">
+        <div
+          ref={trackRef}
+          className="flex flex-col divide-y divide-foreground/5 md:flex-row md:divide-y-0"
+          style={{ willChange: "transform" }}
+        >
+          <Slide eyebrow="Times we sat down">
+            <div className="flex items-baseline gap-4">
+              <ScoreCounter
+                value={recap.totalVisits}
+                decimals={0}
+                className="text-8xl md:text-[10rem]"
+              />
+              <span className="font-heading text-3xl md:text-5xl">visits</span>
+            </div>
+            <p className="max-w-md text-lg leading-relaxed text-muted">
+              Across {recap.restaurantCount} {recap.restaurantCount === 1 ? "restaurant" : "restaurants"}, counting
+              every trip back.
+            </p>
+          </Slide>
+
+          <Slide eyebrow={`The top ${recap.top.length}`}>
+            <ol className="space-y-5">
+              {recap.top.map((restaurant, i) => (
+                <li key={restaurant._id} className="flex items-baseline gap-6">
+                  <span
+                    className={cn(
+                      "w-12 font-mono text-2xl font-bold md:text-3xl",
+                      i === 0 ? "text-accent" : "text-foreground/30"
+                    )}
+                  >
+                    {String(i + 1).padStart(2, "0")}
+                  </span>
+                  <Link
+                    href={`/restaurant/${restaurant.slug.current}`}
+                    className="flex-1 font-heading text-3xl font-bold leading-tight transition-colors hover:text-accent md:text-5xl"
+                  >
+                    {restaurant.name}
+                  </Link>
+                  <ScoreCounter value={restaurant.overallScore} className="text-2xl md:text-3xl" />
+                </li>
+              ))}
+            </ol>
+          </Slide>
+
+          {recap.topCuisine && (
+            <Slide eyebrow="Most-visited cuisine">
+              <Link href={browsePath("cuisine", recap.topCuisine.name)} className="group">
+                <TextScramble
+                  text={recap.topCuisine.name}
+                  as="h2"
+                  className="font-heading text-6xl font-bold leading-tight transition-colors group-hover:text-accent md:text-8xl"
+                />
+              </Link>
+              <p className="font-mono text-sm uppercase tracking-widest text-muted">
+                {recap.topCuisine.visits} of {recap.totalVisits} visits
+              </p>
+            </Slide>
+          )}
+
+          <Slide eyebrow="Highest Rick Factor">
+            <Link href={`/restaurant/${recap.topRickFactor.slug.current}`} className="group">
+              <TextScramble
+                text={recap.topRickFactor.name}
+                as="h2"
+                className="font-heading text-6xl font-bold leading-tight transition-colors group-hover:text-accent md:text-8xl"
+              />
+            </Link>
+            <div className="flex items-baseline gap-3">
+              <ScoreCounter value={recap.topRickFactor.rickFactorScore} className="text-6xl" />
+              <span className="text-xs uppercase tracking-widest text-muted">/ 10</span>
+            </div>
+          </Slide>
+
+          <Slide eyebrow="Average spend">
+            <TextScramble
+              text={spend}
+              as="h2"
+              className="font-mono text-8xl font-bold text-accent md:text-[10rem]"
+            />
+            <p className="max-w-md text-lg leading-relaxed text-muted">
+              A {recap.averageSpend.toFixed(1)} on the four-sign scale, averaged over every visit.
+            </p>
+          </Slide>
+
+          <Slide eyebrow="Month by month">
+            <MonthChart months={recap.months} />
+            <p className="font-mono text-sm uppercase tracking-widest text-muted">
+              Busiest: {MONTHS[busiest]}
+            </p>
+          </Slide>
+
+          {/* End spacer */}
+          <div className="flex flex-shrink-0 items-center justify-center py-16 md:h-screen md:w-[50vw] md:py-0">
+            <div className="text-center">
+              <p className="text-xs uppercase tracking-[0.3em] text-muted">Other years</p>
+              <div className="mt-6 flex flex-wrap justify-center gap-4">
+                {years.map((year) => (
+                  <Link
+                    key={year}
+                    href={`/year/${year}`}
+                    aria-current={year === recap.year ? "page" : undefined}
+                    className={cn(
+                      "font-mono text-2xl font-bold transition-colors",
+                      year === recap.year ? "text-accent" : "text-foreground/30 hover:text-foreground"
+                    )}
+                  >
+                    {year}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <ProgressBar progress={progress} />
+    </PageTransition>
+  );
+}
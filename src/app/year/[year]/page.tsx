@@ -0,0 +1,38 @@
+import { notFound } from "next/navigation";
+import { getPublishedTimelineRestaurants, getTimelineRestaurants } from "@/lib/content";
+import { recapYears, yearRecap } from "@/lib/recap";
+import { YearClient } from "./YearClient";
+
+interface Props {
+  params: Promise<{ year: string }>;
+}
+
+async function getRecap(year: string) {
+  const restaurants = await getTimelineRestaurants();
+  return { recap: yearRecap(restaurants, year), years: recapYears(restaurants) };
+}
+
+export async function generateStaticParams() {
+  const restaurants = await getPublishedTimelineRestaurants();
+  return recapYears(restaurants).map((year) => ({ year }));
+}
+
+export async function generateMetadata({ params }: Props) {
+  const { year } = await params;
+  const { recap } = await getRecap(year);
+  if (!recap) return { title: "Not Found" };
+
+  return {
+    title: `${year} Wrapped | Rick's Cafe`,
+    description: `${recap.totalVisits} visits, ${recap.restaurantCount} restaurants — the year in Rick's Cafe reviews.`,
+  };
+}
+
+export default async function YearPage({ params }: Props) {
+  const { year } = await params;
+  const { recap, years } = await getRecap(year);
+
+  if (!recap) notFound();
+
+  return <YearClient recap={recap} years={years} />;
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { PageTransition } from "@/components/layout/PageTransition";
+import { TimelinePanel } from "@/components/timeline/TimelinePanel";
+import { collectionStats, PRICE_RANGES, type BrowseKind } from "@/lib/browse";
+import type { TimelineRestaurant } from "@/lib/types";
+
+interface Props {
+  kind: BrowseKind;
+  name: string;
+  restaurants: TimelineRestaurant[];
+}
+
+const EYEBROWS: Record<BrowseKind, string> = {
+  cuisine: "Cuisine",
+  neighborhood: "Neighborhood",
+};
+
+function Stat({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <p className="mb-2 font-mono text-xs uppercase tracking-widest text-muted">{label}</p>
+      {children}
+    </div>
+  );
+}
+
+export function CollectionView({ kind, name, restaurants }: Props) {
+  const { count, averageScore, priceCounts } = collectionStats(restaurants);
+  const maxPriceCount = Math.max(...Object.values(priceCounts), 1);
+  const ranked = [...restaurants].sort((a, b) => b.overallScore - a.overallScore);
+
+  return (
+    <PageTransition>
+      <div className="mx-auto max-w-6xl px-6 pb-24 pt-16 md:px-8 md:pt-36">
+        <p className="mb-4 font-mono text-xs uppercase tracking-[0.3em] text-muted">
+          {EYEBROWS[kind]}
+        </p>
+        <h1 className="font-heading text-5xl font-bold leading-tight md:text-7xl">{name}</h1>
+
+        {/* Header stats */}
+        <div className="mt-12 grid grid-cols-2 gap-8 border-y border-foreground/5 py-8 md:grid-cols-3">
+          <Stat label="Reviewed">
+            <span className="font-mono text-3xl font-bold">{count}</span>
+            <span className="ml-2 text-xs uppercase tracking-widest text-muted">
+              {count === 1 ? "spot" : "spots"}
+            </span>
+          </Stat>
+
+          <Stat label="Average Score">
+            <span className="font-mono text-3xl font-bold text-accent">{averageScore.toFixed(1)}</span>
+            <span className="ml-2 text-xs uppercase tracking-widest text-muted">/ 10</span>
+          </Stat>
+
+          <Stat label="Price">
+            <div
+              className="flex h-12 items-end gap-3"
+              role="img"
+              aria-label={PRICE_RANGES.map((p) => `${p}: ${priceCounts[p]}`).join(", ")}
+            >
+              {PRICE_RANGES.map((price, i) => (
+                <div key={price} className="flex flex-1 flex-col items-center gap-1">
+                  <div className="flex h-8 w-full items-end bg-foreground/5">
+                    <motion.div
+                      className="w-full bg-foreground"
+                      initial={{ height: 0 }}
+                      animate={{ height: `${(priceCounts[price] / maxPriceCount) * 100}%` }}
+                      transition={{ duration: 0.8, delay: 0.3 + i * 0.1, ease: [0.22, 1, 0.36, 1] }}
+                    />
+                  </div>
+                  <span className="font-mono text-[10px] text-muted">{price}</span>
+                </div>
+              ))}
+            </div>
+          </Stat>
+        </div>
+
+        {/* Restaurants, best first */}
+        <div className="divide-y divide-foreground/5">
+          {ranked.map((restaurant, i) => (
+            <TimelinePanel key={restaurant._id} restaurant={restaurant} index={i} layout="stack" />
+          ))}
+        </div>
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { animate, motion, useInView, useMotionValue, useTransform } from "framer-motion";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useReducedMotion } from "@/hooks/useReducedMotion";
+import { imageDimensions, urlFor } from "@/lib/sanity/client";
+import { cn } from "@/lib/utils";
+import type { BeforeAfterBlock } from "@/lib/types";
+
+interface Props {
+  value: BeforeAfterBlock;
+  // Rendered width in pixels; both sides are cropped to the same box at this size
+  width?: number;
+  sizes?: string;
+  // Off for thumbnails: the divider sits in the middle and the comparison is one image
+  interactive?: boolean;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+const STEP = 5;
+const PAGE_STEP = 20;
+
+export function beforeAfterLabels(value: BeforeAfterBlock) {
+  return { before: value.beforeLabel || "Before", after: value.afterLabel || "After" };
+}
+
+// The box both sides are cropped to, taken from the before photo
+export function beforeAfterSize(value: BeforeAfterBlock, width = 1600) {
+  const ref = value.before.asset?._ref;
+  const original = ref ? imageDimensions(ref) : { width: 1600, height: 1200 };
+  const displayWidth = Math.min(original.width, width);
+  return { width: displayWidth, height: Math.round((original.height / original.width) * displayWidth) };
+}
+
+// Both sides cropped to the same box, so the divider lines them up
+export function beforeAfterSrc(side: BeforeAfterBlock["before"], size: { width: number; height: number }) {
+  return urlFor(side).width(size.width).height(size.height).fit("crop").quality(85).url();
+}
+
+export function BeforeAfter({
+  value,
+  width: maxWidth = 1600,
+  sizes = "(max-width: 768px) 100vw, 720px",
+  interactive = true,
+  className,
+  style,
+}: Props) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState(50);
+  const [dragging, setDragging] = useState(false);
+  const prefersReduced = useReducedMotion();
+  const inView = useInView(containerRef, { once: true, amount: 0.6 });
+
+  // Drives the clip and the divider; `position` mirrors it for the slider's ARIA state
+  const progress = useMotionValue(50);
+  const clipPath = useTransform(progress, (p) => `inset(0 0 0 ${p}%)`);
+  const left = useTransform(progress, (p) => `${p}%`);
+
+  const size = beforeAfterSize(value, maxWidth);
+  const labels = beforeAfterLabels(value);
+
+  const moveTo = useCallback(
+    (next: number, immediate = false) => {
+      const clamped = Math.min(100, Math.max(0, next));
+      setPosition(clamped);
+      if (immediate || prefersReduced) {
+        progress.set(clamped);
+      } else {
+        animate(progress, clamped, { type: "spring", stiffness: 300, damping: 30 });
+      }
+    },
+    [progress, prefersReduced]
+  );
+
+  // A nudge the first time it scrolls into view, so readers know it moves
+  useEffect(() => {
+    if (!interactive || !inView || prefersReduced) return;
+    const controls = animate(progress, [50, 62, 40, 50], { duration: 1.6, ease: [0.22, 1, 0.36, 1] });
+    return () => controls.stop();
+  }, [interactive, inView, prefersReduced, progress]);
+
+  const positionAt = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect?.width) return position;
+    return ((clientX - rect.left) / rect.width) * 100;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(true);
+    moveTo(positionAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragging) moveTo(positionAt(e.clientX), true);
+  };
+
+  const handlePointerEnd = () => setDragging(false);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const next = {
+      ArrowLeft: position - STEP,
+      ArrowDown: position - STEP,
+      ArrowRight: position + STEP,
+      ArrowUp: position + STEP,
+      PageDown: position - PAGE_STEP,
+      PageUp: position + PAGE_STEP,
+      Home: 0,
+      End: 100,
+    }[e.key];
+    if (next === undefined) return;
+
+    e.preventDefault();
+    // Arrow keys also page the lightbox; the slider has them while it has focus
+    e.stopPropagation();
+    moveTo(next);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "relative select-none overflow-hidden rounded-sm bg-foreground/5",
+        interactive && "cursor-ew-resize touch-pan-y",
+        className
+      )}
+      style={{ aspectRatio: `${size.width} / ${size.height}`, ...style }}
+      onPointerDown={interactive ? handlePointerDown : undefined}
+      onPointerMove={interactive ? handlePointerMove : undefined}
+      onPointerUp={interactive ? handlePointerEnd : undefined}
+      onPointerCancel={interactive ? handlePointerEnd : undefined}
+    >
+      <Image
+        src={beforeAfterSrc(value.before, size)}
+        alt={value.before.alt}
+        fill
+        draggable={false}
+        className="object-cover"
+        sizes={sizes}
+      />
+      <motion.div className="absolute inset-0" style={{ clipPath }}>
+        <Image
+          src={beforeAfterSrc(value.after, size)}
+          alt={value.after.alt}
+          fill
+          draggable={false}
+          className="object-cover"
+          sizes={sizes}
+        />
+      </motion.div>
+
+      <span className="pointer-events-none absolute left-3 top-3 bg-background/70 px-2 py-1 font-mono text-[10px] uppercase tracking-widest text-foreground backdrop-blur-sm">
+        {labels.before}
+      </span>
+      <span className="pointer-events-none absolute right-3 top-3 bg-background/70 px-2 py-1 font-mono text-[10px] uppercase tracking-widest text-foreground backdrop-blur-sm">
+        {labels.after}
+      </span>
+
+      {/* Divider and handle */}
+      <motion.div
+        className="pointer-events-none absolute inset-y-0 w-px -translate-x-1/2 bg-foreground/80"
+        style={{ left }}
+      >
+        <div
+          {...(interactive
+            ? {
+                role: "slider",
+                tabIndex: 0,
+                "aria-label": `${labels.before} / ${labels.after} comparison`,
+                "aria-valuemin": 0,
+                "aria-valuemax": 100,
+                "aria-valuenow": Math.round(position),
+                "aria-valuetext": `${Math.round(100 - position)}% ${labels.after} showing`,
+                onKeyDown: handleKeyDown,
+              }
+            : { "aria-hidden": true })}
+          className={cn(
+            "pointer-events-auto absolute left-1/2 top-1/2 flex h-10 w-10 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border border-foreground/40 bg-background/80 text-foreground backdrop-blur-sm transition-colors",
+            interactive
+              ? "focus-visible:border-accent focus-visible:text-accent focus-visible:outline-none"
+              : "h-8 w-8"
+          )}
+        >
+          <ChevronLeft size={interactive ? 14 : 12} />
+          <ChevronRight size={interactive ? 14 : 12} />
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { PortableText, type PortableTextComponents } from "next-sanity";
+import { BeforeAfter } from "./BeforeAfter";
+import { imageDimensions, urlFor } from "@/lib/sanity/client";
+import { cn } from "@/lib/utils";
+import type { BeforeAfterBlock, LinkMark, ReviewBlock, ReviewImage, TextBlock } from "@/lib/types";
+
+interface Props {
+  value: (ReviewBlock | TextBlock)[];
+  className?: string;
+}
+
+function InlineImage({ value }: { value: ReviewImage }) {
+  if (!value.asset?._ref) return null;
+
+  const { width, height } = imageDimensions(value.asset._ref);
+  const displayWidth = Math.min(width, 1600);
+  const displayHeight = Math.round((height / width) * displayWidth);
+
+  return (
+    <figure className="my-12">
+      <div className="overflow-hidden rounded-sm">
+        <Image
+          src={urlFor(value).width(displayWidth).quality(85).url()}
+          alt={value.caption || "Review photo"}
+          width={displayWidth}
+          height={displayHeight}
+          className="h-auto w-full object-cover"
+          sizes="(max-width: 768px) 100vw, 720px"
+        />
+      </div>
+      {value.caption && (
+        <figcaption className="mt-3 font-mono text-xs uppercase tracking-widest text-muted">
+          {value.caption}
+        </figcaption>
+      )}
+    </figure>
+  );
+}
+
+function InlineBeforeAfter({ value }: { value: BeforeAfterBlock }) {
+  if (!value.before?.asset?._ref || !value.after?.asset?._ref) return null;
+
+  return (
+    <figure className="my-12">
+      <BeforeAfter value={value} />
+      {value.caption && (
+        <figcaption className="mt-3 font-mono text-xs uppercase tracking-widest text-muted">
+          {value.caption}
+        </figcaption>
+      )}
+    </figure>
+  );
+}
+
+const components: PortableTextComponents = {
+  block: {
+    normal: ({ children }) => (
+      <p className="mb-6 text-lg leading-relaxed text-foreground/85">{children}</p>
+    ),
+    h1: ({ children }) => (
+      <h2 className="mb-6 mt-16 font-heading text-4xl font-bold leading-tight md:text-5xl">
+        {children}
+      </h2>
+    ),
+    h2: ({ children }) => (
+      <h2 className="mb-6 mt-16 font-heading text-3xl font-bold leading-tight md:text-4xl">
+        {children}
+      </h2>
+    ),
+    h3: ({ children }) => (
+      <h3 className="mb-4 mt-12 font-heading text-2xl font-semibold leading-snug md:text-3xl">
+        {children}
+      </h3>
+    ),
+    h4: ({ children }) => (
+      <h4 className="mb-4 mt-10 font-mono text-xs uppercase tracking-widest text-accent-gold">
+        {children}
+      </h4>
+    ),
+    blockquote: ({ children }) => (
+      <blockquote className="my-10 border-l-2 border-accent pl-6 font-heading text-2xl italic leading-relaxed text-foreground md:text-3xl">
+        {children}
+      </blockquote>
+    ),
+  },
+  list: {
+    bullet: ({ children }) => (
+      <ul className="mb-6 ml-6 list-disc space-y-2 text-lg leading-relaxed text-foreground/85 marker:text-accent">
+        {children}
+      </ul>
+    ),
+    number: ({ children }) => (
+      <ol className="mb-6 ml-6 list-decimal space-y-2 text-lg leading-relaxed text-foreground/85 marker:font-mono marker:text-accent">
+        {children}
+      </ol>
+    ),
+  },
+  marks: {
+    strong: ({ children }) => (
+      <strong className="font-semibold text-foreground">{children}</strong>
+    ),
+    em: ({ children }) => <em className="font-heading text-[1.15em] italic">{children}</em>,
+    code: ({ children }) => (
+      <code className="bg-foreground/5 px-1.5 py-0.5 font-mono text-[0.85em]">
+        {children}
+      </code>
+    ),
+    underline: ({ children }) => (
+      <span className="underline decoration-accent/60 underline-offset-4">{children}</span>
+    ),
+    "strike-through": ({ children }) => (
+      <s className="text-muted">{children}</s>
+    ),
+    link: ({ children, value }) => {
+      const href = (value as LinkMark | undefined)?.href ?? "#";
+      const className =
+        "text-accent underline decoration-accent/40 underline-offset-4 transition-colors hover:decoration-accent";
+
+      return href.startsWith("/") ? (
+        <Link href={href} className={className}>
+          {children}
+        </Link>
+      ) : (
+        <a href={href} target="_blank" rel="noopener noreferrer" className={className}>
+          {children}
+        </a>
+      );
+    },
+  },
+  types: {
+    image: InlineImage,
+    beforeAfter: InlineBeforeAfter,
+  },
+};
+
+export function RichText({ value, className }: Props) {
+  return (
+    <div className={cn("max-w-none", className)}>
+      <PortableText value={value} components={components} />
+    </div>
+  );
+}
@@ -1,45 +1,42 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { BAYOU_PATHS, LOOP_610, SKYLINE_PATH } from "@/components/map/houstonPaths";
+import { hasCoordinates, projectToMap } from "@/lib/geo";
+import type { TimelineRestaurant } from "@/lib/types";
 
-// Simplified Houston bayou paths (Buffalo Bayou, Brays Bayou, White Oak)
-// Stylized line-art — not geographically exact but evocative of the city's waterways
-const BAYOU_PATHS = [
-  // Buffalo Bayou — main artery, west to east through downtown
-  "M 50,280 C 120,270 180,300 250,285 C 320,270 380,260 450,270 C 520,280 570,250 640,255 C 710,260 760,240 820,250 C 880,260 920,255 950,260",
-  // Brays Bayou — south arc
-  "M 250,450 C 320,440 400,420 480,430 C 560,440 620,410 700,400 C 780,390 840,380 920,385",
-  // White Oak Bayou — north branch
-  "M 350,120 C 400,140 440,170 480,180 C 520,190 560,220 600,230 C 640,240 660,250 640,255",
-  // Sims Bayou — far south
-  "M 150,520 C 250,510 350,500 450,505 C 550,510 650,490 750,495 C 820,498 880,485 950,490",
-];
-
-// Restaurant location dots along the bayous
-const RESTAURANT_DOTS = [
-  { x: 450, y: 270, label: "Truth BBQ", neighborhood: "Heights" },
-  { x: 640, y: 255, label: "Xochi", neighborhood: "Downtown" },
-  { x: 480, y: 430, label: "Crawfish & Noodles", neighborhood: "Asiatown" },
-  { x: 600, y: 230, label: "March", neighborhood: "Montrose" },
-  { x: 700, y: 400, label: "Himalaya", neighborhood: "Hillcroft" },
-  { x: 820, y: 250, label: "Le Jardinier", neighborhood: "Uptown" },
-];
-
-// The 610 Loop — simplified circle/oval representing Houston's inner loop
-const LOOP_610 =
-  "M 640,180 C 750,180 820,230 820,310 C 820,390 750,440 640,440 C 530,440 460,390 460,310 C 460,230 530,180 640,180 Z";
+// How many of the latest reviews get a dot by default
+const DEFAULT_DOT_COUNT = 6;
 
 interface Props {
   onComplete: () => void;
+  restaurants: TimelineRestaurant[];
+  limit?: number;
 }
 
-export function NeonMapIntro({ onComplete }: Props) {
+export function NeonMapIntro({ onComplete, restaurants, limit = DEFAULT_DOT_COUNT }: Props) {
   const [phase, setPhase] = useState<"map" | "text" | "dissolve">("map");
   const [activeDot, setActiveDot] = useState(-1);
   const containerRef = useRef<HTMLDivElement>(null);
   const hasSkipped = useRef(false);
 
+  // Plot the most recent reviews that have coordinates
+  const dots = useMemo(
+    () =>
+      restaurants
+        .filter(hasCoordinates)
+        .sort((a, b) => b.dateVisited.localeCompare(a.dateVisited))
+        .slice(0, limit)
+        .map((r) => ({
+          ...projectToMap(r.coordinates),
+          id: r._id,
+          label: r.neighborhood ?? r.name,
+          color: r.vibeColor ?? "var(--accent)",
+        })),
+    [restaurants, limit]
+  );
+
   const handleSkip = useCallback(() => {
     if (hasSkipped.current) return;
     hasSkipped.current = true;
@@ -51,23 +48,23 @@ export function NeonMapIntro({ onComplete }: Props) {
     const timers: NodeJS.Timeout[] = [];
 
     // Stagger the restaurant dot reveals
-    RESTAURANT_DOTS.forEach((_, i) => {
+    dots.forEach((_, i) => {
       timers.push(setTimeout(() => setActiveDot(i), 600 + i * 350));
     });
 
     // Transition to text phase after dots animate
-    timers.push(setTimeout(() => setPhase("text"), 600 + RESTAURANT_DOTS.length * 350 + 400));
+    timers.push(setTimeout(() => setPhase("text"), 600 + dots.length * 350 + 400));
 
     // Dissolve phase
-    timers.push(setTimeout(() => setPhase("dissolve"), 600 + RESTAURANT_DOTS.length * 350 + 2200));
+    timers.push(setTimeout(() => setPhase("dissolve"), 600 + dots.length * 350 + 2200));
 
     // Complete
     timers.push(setTimeout(() => {
       if (!hasSkipped.current) onComplete();
-    }, 600 + RESTAURANT_DOTS.length * 350 + 3000));
+    }, 600 + dots.length * 350 + 3000));
 
     return () => timers.forEach(clearTimeout);
-  }, [onComplete]);
+  }, [onComplete, dots]);
 
   return (
     <AnimatePresence>
@@ -174,15 +171,15 @@ export function NeonMapIntro({ onComplete }: Props) {
             ))}
 
             {/* Restaurant dots with flare */}
-            {RESTAURANT_DOTS.map((dot, i) => (
-              <g key={i}>
+            {dots.map((dot, i) => (
+              <g key={dot.id}>
                 {/* Pulse ring */}
                 <motion.circle
                   cx={dot.x}
                   cy={dot.y}
                   r="12"
                   fill="none"
-                  stroke="var(--accent)"
+                  stroke={dot.color}
                   strokeWidth="1"
                   initial={{ scale: 0, opacity: 0 }}
                   animate={
@@ -197,7 +194,7 @@ export function NeonMapIntro({ onComplete }: Props) {
                   cx={dot.x}
                   cy={dot.y}
                   r="6"
-                  fill="var(--accent)"
+                  fill={dot.color}
                   filter="url(#dot-glow)"
                   initial={{ scale: 0, opacity: 0 }}
                   animate={activeDot >= i ? { scale: 1, opacity: 0.6 } : {}}
@@ -213,6 +210,21 @@ export function NeonMapIntro({ onComplete }: Props) {
                   animate={activeDot >= i ? { scale: 1, opacity: 1 } : {}}
                   transition={{ duration: 0.3, ease: "backOut" }}
                 />
+                {/* Edge marker pointing toward an off-map location */}
+                {dot.clamped && (
+                  <motion.path
+                    d="M -3,-4 L 3,0 L -3,4"
+                    fill="none"
+                    stroke={dot.color}
+                    strokeWidth="1.5"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    transform={`translate(${dot.x} ${dot.y}) rotate(${dot.angle}) translate(12 0)`}
+                    initial={{ opacity: 0 }}
+                    animate={activeDot >= i ? { opacity: 0.8 } : {}}
+                    transition={{ duration: 0.4, delay: 0.2 }}
+                  />
+                )}
                 {/* Neighborhood label */}
                 <motion.text
                   x={dot.x}
@@ -227,14 +239,14 @@ export function NeonMapIntro({ onComplete }: Props) {
                   transition={{ duration: 0.4, delay: 0.1 }}
                   style={{ textTransform: "uppercase" }}
                 >
-                  {dot.neighborhood}
+                  {dot.label}
                 </motion.text>
               </g>
             ))}
 
             {/* Skyline silhouette hint along the downtown area */}
             <motion.path
-              d="M 580,250 L 585,230 L 590,230 L 590,240 L 600,240 L 600,210 L 610,210 L 610,220 L 620,220 L 620,195 L 630,195 L 630,205 L 640,205 L 640,185 L 650,185 L 650,200 L 660,200 L 660,215 L 670,215 L 670,240 L 680,240 L 680,250"
+              d={SKYLINE_PATH}
               fill="none"
               stroke="var(--accent-gold)"
               strokeWidth="0.8"
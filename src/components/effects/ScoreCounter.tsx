@@ -0,0 +1,51 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+
+interface Props {
+  value: number;
+  decimals?: number;
+  className?: string;
+}
+
+// Counts up from zero the first time it scrolls into view
+export function ScoreCounter({ value, decimals = 1, className }: Props) {
+  const [display, setDisplay] = useState(0);
+  const ref = useRef<HTMLSpanElement>(null);
+  const hasAnimated = useRef(false);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !hasAnimated.current) {
+          hasAnimated.current = true;
+          const duration = 800;
+          const start = performance.now();
+
+          const tick = (now: number) => {
+            const elapsed = now - start;
+            const progress = Math.min(elapsed / duration, 1);
+            const eased = 1 - Math.pow(1 - progress, 3);
+            setDisplay(parseFloat((eased * value).toFixed(decimals)));
+            if (progress < 1) requestAnimationFrame(tick);
+          };
+          requestAnimationFrame(tick);
+        }
+      },
+      { threshold: 0.5 }
+    );
+
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [value, decimals]);
+
+  return (
+    <span ref={ref} className={cn("font-mono text-4xl font-bold text-accent", className)}>
+      {display.toFixed(decimals)}
+    </span>
+  );
+}
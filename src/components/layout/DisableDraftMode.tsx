@@ -0,0 +1,18 @@
+"use client";
+
+import { useIsPresentationTool } from "next-sanity/hooks";
+
+// Exit link for drafts opened outside the Studio — Presentation has its own controls
+export function DisableDraftMode() {
+  const isPresentationTool = useIsPresentationTool();
+  if (isPresentationTool !== false) return null;
+
+  return (
+    <a
+      href="/api/draft-mode/disable"
+      className="fixed bottom-24 right-6 z-50 border border-accent bg-background/90 px-4 py-2 font-mono text-xs uppercase tracking-widest text-accent backdrop-blur-sm transition-colors hover:bg-accent hover:text-background md:bottom-6"
+    >
+      Exit Draft Preview
+    </a>
+  );
+}
@@ -2,12 +2,14 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Home, Clock, Search, User } from "lucide-react";
+import { Home, Clock, Map, Search, Trophy, User } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 const navItems = [
   { href: "/", label: "Home", icon: Home },
   { href: "/#timeline", label: "Timeline", icon: Clock },
+  { href: "/map", label: "Map", icon: Map },
+  { href: "/rankings", label: "Rankings", icon: Trophy },
   { href: "/search", label: "Search", icon: Search },
   { href: "/about", label: "About", icon: User },
 ];
@@ -0,0 +1,466 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { motion, AnimatePresence } from "framer-motion";
+import { Minus, Plus, RotateCcw } from "lucide-react";
+import { BAYOU_PATHS, LOOP_610, SKYLINE_PATH } from "./houstonPaths";
+import { hasCoordinates, MAP_HEIGHT, MAP_WIDTH, projectToMap } from "@/lib/geo";
+import { cuisineColors } from "@/lib/palette";
+import { urlFor } from "@/lib/sanity/client";
+import type { TimelineRestaurant } from "@/lib/types";
+
+interface Props {
+  restaurants: TimelineRestaurant[];
+}
+
+interface ViewBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const MAX_ZOOM = 6;
+const FULL_VIEW: ViewBox = { x: 0, y: 0, w: MAP_WIDTH, h: MAP_HEIGHT };
+// Pointer travel (px) after which a press counts as a drag, not a tap
+const DRAG_THRESHOLD = 4;
+
+function clampView({ x, y, w }: ViewBox): ViewBox {
+  const width = Math.min(MAP_WIDTH, Math.max(MAP_WIDTH / MAX_ZOOM, w));
+  const height = width * (MAP_HEIGHT / MAP_WIDTH);
+  return {
+    x: Math.min(MAP_WIDTH - width, Math.max(0, x)),
+    y: Math.min(MAP_HEIGHT - height, Math.max(0, y)),
+    w: width,
+    h: height,
+  };
+}
+
+// Zoom by `factor` keeping the map point (cx, cy) fixed on screen
+function zoomAt(view: ViewBox, factor: number, cx: number, cy: number) {
+  const w = view.w / factor;
+  const ratio = w / view.w;
+  return clampView({
+    x: cx - (cx - view.x) * ratio,
+    y: cy - (cy - view.y) * ratio,
+    w,
+    h: w * (MAP_HEIGHT / MAP_WIDTH),
+  });
+}
+
+function MapCard({ restaurant }: { restaurant: TimelineRestaurant }) {
+  return (
+    <div className="w-64 border border-foreground/10 bg-background/95 p-4 backdrop-blur-sm">
+      <div className="flex gap-4">
+        <div
+          className="relative aspect-[4/5] w-20 flex-shrink-0 overflow-hidden rounded-sm"
+          style={{ background: restaurant.vibeColor ?? "var(--background-secondary)" }}
+        >
+          {restaurant.heroImage && (
+            <Image
+              src={urlFor(restaurant.heroImage).width(160).height(200).fit("crop").quality(75).url()}
+              alt={restaurant.heroImage.alt || restaurant.name}
+              fill
+              className="object-cover"
+              style={{ filter: "saturate(0.85)" }}
+              sizes="80px"
+              placeholder={restaurant.heroImage.lqip ? "blur" : "empty"}
+              blurDataURL={restaurant.heroImage.lqip ?? undefined}
+            />
+          )}
+        </div>
+
+        <div className="min-w-0 space-y-2">
+          <p className="font-mono text-[10px] uppercase tracking-[0.3em] text-accent-gold">
+            {new Date(restaurant.dateVisited).toLocaleDateString("en-US", {
+              year: "numeric",
+              month: "long",
+            })}
+          </p>
+          <h3 className="font-heading text-2xl font-bold leading-tight">{restaurant.name}</h3>
+          <div className="flex flex-wrap items-center gap-x-2 font-mono text-xs text-muted">
+            <span>{restaurant.cuisine}</span>
+            <span className="text-foreground/20">|</span>
+            <span>{restaurant.priceRange}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-4 flex items-baseline justify-between">
+        {restaurant.overallScore != null && (
+          <span className="font-mono text-2xl font-bold text-accent">
+            {restaurant.overallScore.toFixed(1)}
+            <span className="ml-1 text-xs font-normal tracking-widest text-muted">/ 10</span>
+          </span>
+        )}
+        <Link
+          href={`/restaurant/${restaurant.slug.current}`}
+          className="text-xs uppercase tracking-widest text-accent underline underline-offset-4 decoration-accent/40 transition-colors hover:text-accent-gold hover:decoration-accent"
+        >
+          Read Review
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export function HoustonMap({ restaurants }: Props) {
+  const router = useRouter();
+  const [view, setView] = useState<ViewBox>(FULL_VIEW);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const dragDistance = useRef(0);
+  const closeTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const zoom = MAP_WIDTH / view.w;
+
+  // Only the cuisines on the map take colors, and they double as the legend
+  const colors = useMemo(
+    () => cuisineColors(restaurants.filter(hasCoordinates).map((r) => r.cuisine)),
+    [restaurants]
+  );
+
+  const dots = useMemo(
+    () =>
+      restaurants
+        .filter(hasCoordinates)
+        // Draw the best-scored dots last so they sit on top
+        .sort((a, b) => (a.overallScore ?? 0) - (b.overallScore ?? 0))
+        .map((restaurant) => ({
+          restaurant,
+          ...projectToMap(restaurant.coordinates),
+          color: colors.get(restaurant.cuisine)!,
+        })),
+    [restaurants, colors]
+  );
+
+  const active = dots.find((d) => d.restaurant._id === activeId);
+
+  // Client pixel → map coordinate
+  const toMapPoint = useCallback(
+    (clientX: number, clientY: number) => {
+      const rect = svgRef.current!.getBoundingClientRect();
+      return {
+        x: view.x + ((clientX - rect.left) / rect.width) * view.w,
+        y: view.y + ((clientY - rect.top) / rect.height) * view.h,
+      };
+    },
+    [view]
+  );
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const point = toMapPoint(e.clientX, e.clientY);
+      setView((v) => zoomAt(v, e.deltaY < 0 ? 1.2 : 1 / 1.2, point.x, point.y));
+    };
+
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, [toMapPoint]);
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 1) dragDistance.current = 0;
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const prev = pointers.current.get(e.pointerId);
+    if (!prev || !svgRef.current) return;
+
+    const rect = svgRef.current.getBoundingClientRect();
+    const scale = view.w / rect.width;
+
+    if (pointers.current.size === 1) {
+      const dx = e.clientX - prev.x;
+      const dy = e.clientY - prev.y;
+      dragDistance.current += Math.hypot(dx, dy);
+      if (dragDistance.current > DRAG_THRESHOLD) {
+        // Capture only once it is a real drag so taps still reach the dots
+        svgRef.current.setPointerCapture(e.pointerId);
+        setView((v) => clampView({ ...v, x: v.x - dx * scale, y: v.y - dy * scale }));
+      }
+    } else if (pointers.current.size === 2) {
+      // Pinch: zoom by the change in distance between the two fingers
+      const other = [...pointers.current.entries()].find(([id]) => id !== e.pointerId)![1];
+      const before = Math.hypot(prev.x - other.x, prev.y - other.y);
+      const after = Math.hypot(e.clientX - other.x, e.clientY - other.y);
+      const mid = toMapPoint((e.clientX + other.x) / 2, (e.clientY + other.y) / 2);
+      dragDistance.current = Infinity;
+      if (before > 0) setView((v) => zoomAt(v, after / before, mid.x, mid.y));
+    }
+
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const step = view.w * 0.1;
+    const center = { x: view.x + view.w / 2, y: view.y + view.h / 2 };
+    const actions: Record<string, () => ViewBox> = {
+      "+": () => zoomAt(view, 1.4, center.x, center.y),
+      "=": () => zoomAt(view, 1.4, center.x, center.y),
+      "-": () => zoomAt(view, 1 / 1.4, center.x, center.y),
+      "0": () => FULL_VIEW,
+      ArrowLeft: () => clampView({ ...view, x: view.x - step }),
+      ArrowRight: () => clampView({ ...view, x: view.x + step }),
+      ArrowUp: () => clampView({ ...view, y: view.y - step }),
+      ArrowDown: () => clampView({ ...view, y: view.y + step }),
+    };
+    if (e.key === "Escape") setActiveId(null);
+    if (actions[e.key]) {
+      e.preventDefault();
+      setView(actions[e.key]());
+    }
+  };
+
+  const openCard = (id: string) => {
+    clearTimeout(closeTimer.current);
+    setActiveId(id);
+  };
+
+  // Small delay so the pointer can travel from the dot onto the card
+  const scheduleClose = () => {
+    clearTimeout(closeTimer.current);
+    closeTimer.current = setTimeout(() => setActiveId(null), 200);
+  };
+
+  const zoomButton = (factor: number) =>
+    setView((v) => zoomAt(v, factor, v.x + v.w / 2, v.y + v.h / 2));
+
+  return (
+    <div className="space-y-6">
+      <div
+        ref={containerRef}
+        className="relative aspect-[5/3] w-full touch-none select-none overflow-hidden border border-foreground/5 outline-none focus-visible:border-accent/40"
+        style={{ background: "var(--background)" }}
+        tabIndex={0}
+        role="application"
+        aria-label="Map of reviewed restaurants. Drag to pan, scroll or use plus and minus to zoom, Tab through the restaurants."
+        data-lenis-prevent
+        onKeyDown={onKeyDown}
+      >
+        <svg
+          ref={svgRef}
+          viewBox={`${view.x} ${view.y} ${view.w} ${view.h}`}
+          className="absolute inset-0 h-full w-full cursor-grab active:cursor-grabbing"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={onPointerUp}
+          onClick={() => {
+            if (dragDistance.current <= DRAG_THRESHOLD) setActiveId(null);
+          }}
+        >
+          <defs>
+            <radialGradient id="houston-map-ambient" cx="50%" cy="50%" r="50%">
+              <stop offset="0%" stopColor="var(--accent)" stopOpacity="0.08" />
+              <stop offset="100%" stopColor="transparent" stopOpacity="0" />
+            </radialGradient>
+            <filter id="houston-map-glow">
+              <feGaussianBlur stdDeviation="3" result="blur" />
+              <feMerge>
+                <feMergeNode in="blur" />
+                <feMergeNode in="SourceGraphic" />
+              </feMerge>
+            </filter>
+            <filter id="houston-map-dot-glow">
+              <feGaussianBlur stdDeviation="4" result="blur" />
+              <feMerge>
+                <feMergeNode in="blur" />
+                <feMergeNode in="SourceGraphic" />
+              </feMerge>
+            </filter>
+          </defs>
+
+          <rect width={MAP_WIDTH} height={MAP_HEIGHT} fill="url(#houston-map-ambient)" />
+
+          {/* 610 Loop */}
+          <path
+            d={LOOP_610}
+            fill="none"
+            stroke="var(--accent-gold)"
+            strokeWidth={0.5 / Math.sqrt(zoom)}
+            strokeOpacity="0.25"
+          />
+
+          {/* Bayous */}
+          {BAYOU_PATHS.map((path, i) => (
+            <g key={i}>
+              <path
+                d={path}
+                fill="none"
+                stroke="var(--accent)"
+                strokeWidth="4"
+                strokeLinecap="round"
+                filter="url(#houston-map-glow)"
+                strokeOpacity="0.25"
+              />
+              <path
+                d={path}
+                fill="none"
+                stroke="var(--accent)"
+                strokeWidth="1.5"
+                strokeLinecap="round"
+                strokeOpacity="0.6"
+              />
+            </g>
+          ))}
+
+          {/* Downtown skyline */}
+          <path
+            d={SKYLINE_PATH}
+            fill="none"
+            stroke="var(--accent-gold)"
+            strokeWidth="0.8"
+            strokeOpacity="0.25"
+          />
+
+          {/* Restaurants: radius by overall score, color by cuisine */}
+          {dots.map((dot, i) => {
+            const radius = (2 + (dot.restaurant.overallScore ?? 5) * 0.6) / Math.sqrt(zoom);
+            const isActive = dot.restaurant._id === activeId;
+            const score = (dot.restaurant.overallScore ?? 0).toFixed(1);
+
+            return (
+              <motion.g
+                key={dot.restaurant._id}
+                initial={{ opacity: 0, scale: 0 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ delay: 0.3 + i * 0.05, duration: 0.4, ease: "backOut" }}
+                className="cursor-pointer outline-none"
+                tabIndex={0}
+                role="button"
+                aria-label={`Read the review of ${dot.restaurant.name}, ${dot.restaurant.cuisine}, ${score} out of 10`}
+                onPointerEnter={(e) => e.pointerType === "mouse" && openCard(dot.restaurant._id)}
+                onPointerLeave={(e) => e.pointerType === "mouse" && scheduleClose()}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (dragDistance.current <= DRAG_THRESHOLD) openCard(dot.restaurant._id);
+                }}
+                // Keyboard focus previews the card the way hovering does; Tab moves on to the
+                // next dot, so Enter goes straight to the review the card links to
+                onFocus={() => openCard(dot.restaurant._id)}
+                onBlur={scheduleClose}
+                onKeyDown={(e) => {
+                  if (e.key !== "Enter" && e.key !== " ") return;
+                  e.preventDefault();
+                  router.push(`/restaurant/${dot.restaurant.slug.current}`);
+                }}
+              >
+                <circle
+                  cx={dot.x}
+                  cy={dot.y}
+                  r={radius * 2}
+                  fill={dot.color}
+                  opacity={isActive ? 0.35 : 0.15}
+                  filter="url(#houston-map-dot-glow)"
+                />
+                <circle
+                  cx={dot.x}
+                  cy={dot.y}
+                  r={radius}
+                  fill={dot.color}
+                  stroke={isActive ? "var(--foreground)" : "var(--accent-gold)"}
+                  strokeWidth={(isActive ? 1.5 : 0.5) / Math.sqrt(zoom)}
+                />
+                {/* Edge marker pointing toward an off-map location */}
+                {dot.clamped && (
+                  <path
+                    d="M -3,-4 L 3,0 L -3,4"
+                    fill="none"
+                    stroke={dot.color}
+                    strokeWidth="1.5"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    transform={`translate(${dot.x} ${dot.y}) rotate(${dot.angle}) translate(${radius + 6} 0)`}
+                  />
+                )}
+              </motion.g>
+            );
+          })}
+        </svg>
+
+        {/* Hover card, positioned over the active dot */}
+        <AnimatePresence>
+          {active && (
+            <motion.div
+              key={active.restaurant._id}
+              className="absolute z-10"
+              style={{
+                left: `${((active.x - view.x) / view.w) * 100}%`,
+                top: `${((active.y - view.y) / view.h) * 100}%`,
+                x: "-50%",
+                y: active.y - view.y < view.h / 2 ? 16 : "calc(-100% - 16px)",
+              }}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.2 }}
+              onPointerEnter={() => clearTimeout(closeTimer.current)}
+              onPointerLeave={scheduleClose}
+            >
+              <MapCard restaurant={active.restaurant} />
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Zoom controls */}
+        <div className="absolute bottom-4 right-4 flex flex-col border border-foreground/10 bg-background/80 backdrop-blur-sm">
+          <button
+            type="button"
+            onClick={() => zoomButton(1.4)}
+            className="p-2 text-foreground/60 transition-colors hover:text-foreground"
+            aria-label="Zoom in"
+          >
+            <Plus size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={() => zoomButton(1 / 1.4)}
+            className="border-t border-foreground/10 p-2 text-foreground/60 transition-colors hover:text-foreground"
+            aria-label="Zoom out"
+          >
+            <Minus size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={() => setView(FULL_VIEW)}
+            className="border-t border-foreground/10 p-2 text-foreground/60 transition-colors hover:text-foreground"
+            aria-label="Reset map"
+          >
+            <RotateCcw size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+        {[...colors].map(([cuisine, color]) => (
+          <span
+            key={cuisine}
+            className="flex items-center gap-2 font-mono text-xs uppercase tracking-widest text-muted"
+          >
+            <span className="h-2 w-2 rounded-full" style={{ background: color }} />
+            {cuisine}
+          </span>
+        ))}
+        <span className="font-mono text-xs uppercase tracking-widest text-foreground/30">
+          Dot size = overall score
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+// Houston line art shared by the intro animation and the /map page.
+// Drawn in the 1000×600 viewBox described in lib/geo.ts
+
+// Simplified Houston bayou paths (Buffalo Bayou, Brays Bayou, White Oak)
+// Stylized line-art — not geographically exact but evocative of the city's waterways
+export const BAYOU_PATHS = [
+  // Buffalo Bayou — main artery, west to east through downtown
+  "M 50,280 C 120,270 180,300 250,285 C 320,270 380,260 450,270 C 520,280 570,250 640,255 C 710,260 760,240 820,250 C 880,260 920,255 950,260",
+  // Brays Bayou — south arc
+  "M 250,450 C 320,440 400,420 480,430 C 560,440 620,410 700,400 C 780,390 840,380 920,385",
+  // White Oak Bayou — north branch
+  "M 350,120 C 400,140 440,170 480,180 C 520,190 560,220 600,230 C 640,240 660,250 640,255",
+  // Sims Bayou — far south
+  "M 150,520 C 250,510 350,500 450,505 C 550,510 650,490 750,495 C 820,498 880,485 950,490",
+];
+
+// The 610 Loop — simplified circle/oval representing Houston's inner loop
+export const LOOP_610 =
+  "M 640,180 C 750,180 820,230 820,310 C 820,390 750,440 640,440 C 530,440 460,390 460,310 C 460,230 530,180 640,180 Z";
+
+// Skyline silhouette hint along the downtown area
+export const SKYLINE_PATH =
+  "M 580,250 L 585,230 L 590,230 L 590,240 L 600,240 L 600,210 L 610,210 L 610,220 L 620,220 L 620,195 L 630,195 L 630,205 L 640,205 L 640,185 L 650,185 L 650,200 L 660,200 L 660,215 L 670,215 L 670,240 L 680,240 L 680,250";
@@ -0,0 +1,206 @@
+// Open Graph share cards, rendered to PNG by next/og. Its layout engine only does
+// flexbox and inline styles: every element with children sets display: flex.
+
+import { OG_COLORS } from "@/lib/og";
+import type { Scores } from "@/lib/types";
+
+const categories = [
+  { key: "taste", label: "Taste" },
+  { key: "vibe", label: "Vibe" },
+  { key: "service", label: "Service" },
+  { key: "value", label: "Value" },
+] as const;
+
+// The homepage sky, compressed to a card
+const SUNSET = `radial-gradient(ellipse 120% 60% at 50% 110%, rgba(232,137,42,0.55) 0%, rgba(196,83,42,0.30) 35%, rgba(140,95,168,0.10) 65%, transparent 80%), linear-gradient(to bottom, #1a2240 0%, #2e1848 40%, ${OG_COLORS.background} 100%)`;
+
+const eyebrow = {
+  fontSize: 20,
+  letterSpacing: 6,
+  textTransform: "uppercase" as const,
+  color: OG_COLORS.gold,
+};
+
+interface RestaurantCardProps {
+  name: string;
+  cuisine: string;
+  priceRange: string;
+  neighborhood?: string | null;
+  overallScore: number;
+  scores: Scores;
+  heroSrc: string | null;
+}
+
+export function RestaurantCard({
+  name,
+  cuisine,
+  priceRange,
+  neighborhood,
+  overallScore,
+  scores,
+  heroSrc,
+}: RestaurantCardProps) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        width: "100%",
+        height: "100%",
+        background: SUNSET,
+        color: OG_COLORS.foreground,
+        fontFamily: "JetBrains Mono",
+      }}
+    >
+      {/* Hero, masked so it fades into the sky on its left edge. Without one the sky fills the card */}
+      {heroSrc && (
+        <div
+          style={{
+            display: "flex",
+            position: "absolute",
+            top: 0,
+            right: 0,
+            width: 520,
+            height: 630,
+            maskImage: "linear-gradient(to right, transparent 0%, black 55%)",
+          }}
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={heroSrc} alt="" width={520} height={630} style={{ objectFit: "cover" }} />
+        </div>
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          width: 760,
+          height: "100%",
+          padding: 64,
+        }}
+      >
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          <div style={{ display: "flex", ...eyebrow }}>Rick&apos;s Café · HTX</div>
+          <div
+            style={{
+              display: "flex",
+              marginTop: 24,
+              fontFamily: "Cormorant Garamond",
+              fontSize: name.length > 22 ? 64 : 84,
+              fontWeight: 700,
+              lineHeight: 1.05,
+            }}
+          >
+            {name}
+          </div>
+          <div style={{ display: "flex", marginTop: 16, fontSize: 22, color: OG_COLORS.muted }}>
+            {[cuisine, priceRange, neighborhood].filter(Boolean).join("  |  ")}
+          </div>
+        </div>
+
+        <div style={{ display: "flex", alignItems: "flex-end", gap: 56 }}>
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div
+              style={{
+                display: "flex",
+                fontSize: 132,
+                fontWeight: 700,
+                lineHeight: 1,
+                color: OG_COLORS.accent,
+              }}
+            >
+              {overallScore.toFixed(1)}
+            </div>
+            <div style={{ display: "flex", marginTop: 8, fontSize: 18, letterSpacing: 4, color: OG_COLORS.muted }}>
+              / 10 OVERALL
+            </div>
+          </div>
+
+          <div style={{ display: "flex", flexDirection: "column", gap: 14, width: 280, paddingBottom: 8 }}>
+            {categories.map((cat) => (
+              <div key={cat.key} style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+                <div
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    fontSize: 15,
+                    letterSpacing: 3,
+                    color: OG_COLORS.muted,
+                  }}
+                >
+                  <span>{cat.label.toUpperCase()}</span>
+                  <span style={{ color: OG_COLORS.foreground, fontWeight: 700 }}>
+                    {Number(scores[cat.key].toFixed(1))}
+                  </span>
+                </div>
+                <div style={{ display: "flex", height: 3, background: "rgba(238,220,188,0.08)" }}>
+                  <div
+                    style={{
+                      display: "flex",
+                      width: `${(scores[cat.key] / 10) * 100}%`,
+                      background: OG_COLORS.foreground,
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface SiteCardProps {
+  eyebrow: string;
+  title: string;
+  subtitle: string;
+}
+
+export function SiteCard({ eyebrow: label, title, subtitle }: SiteCardProps) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        width: "100%",
+        height: "100%",
+        padding: 80,
+        background: SUNSET,
+        color: OG_COLORS.foreground,
+        fontFamily: "JetBrains Mono",
+        textAlign: "center",
+      }}
+    >
+      <div style={{ display: "flex", ...eyebrow }}>{label}</div>
+      <div
+        style={{
+          display: "flex",
+          marginTop: 28,
+          fontFamily: "Cormorant Garamond",
+          fontSize: 128,
+          fontWeight: 700,
+          lineHeight: 0.95,
+          letterSpacing: -3,
+        }}
+      >
+        {title}
+      </div>
+      <div style={{ display: "flex", width: 64, height: 1, marginTop: 36, background: OG_COLORS.gold }} />
+      <div
+        style={{
+          display: "flex",
+          maxWidth: 760,
+          marginTop: 28,
+          fontSize: 24,
+          lineHeight: 1.5,
+          color: OG_COLORS.muted,
+        }}
+      >
+        {subtitle}
+      </div>
+    </div>
+  );
+}
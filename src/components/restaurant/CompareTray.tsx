@@ -0,0 +1,95 @@
+"use client";
+
+import Link from "next/link";
+import { AnimatePresence, motion } from "framer-motion";
+import { Check, Plus, X } from "lucide-react";
+import { useCompareTray } from "@/hooks/useCompareTray";
+import { comparePath, MAX_COMPARE, MIN_COMPARE, type CompareItem } from "@/lib/compare";
+import { cn } from "@/lib/utils";
+
+interface CompareTrayProps {
+  restaurant: CompareItem;
+}
+
+export function CompareTray({ restaurant }: CompareTrayProps) {
+  const tray = useCompareTray();
+  const added = tray.has(restaurant.slug);
+  const ready = tray.items.length >= MIN_COMPARE;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => (added ? tray.remove(restaurant.slug) : tray.add(restaurant))}
+        aria-pressed={added}
+        className={cn(
+          "flex w-full items-center justify-center gap-2 border px-4 py-3 font-mono text-xs uppercase tracking-widest transition-colors",
+          added
+            ? "border-accent bg-accent/10 text-accent"
+            : "border-foreground/10 text-foreground/60 hover:border-foreground/30 hover:text-foreground"
+        )}
+      >
+        {added ? <Check size={14} /> : <Plus size={14} />}
+        {added ? "In compare tray" : "Add to compare"}
+      </button>
+
+      <AnimatePresence>
+        {tray.items.length > 0 && (
+          <motion.div
+            className="fixed inset-x-4 bottom-20 z-40 mx-auto max-w-3xl border border-foreground/10 bg-background/90 px-4 py-3 backdrop-blur-xl md:bottom-6"
+            initial={{ opacity: 0, y: 40 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 40 }}
+            transition={{ duration: 0.4, ease: [0.22, 1, 0.36, 1] }}
+            role="region"
+            aria-label="Compare tray"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="mr-2 font-mono text-[10px] uppercase tracking-widest text-muted">
+                Compare {tray.items.length}/{MAX_COMPARE}
+              </span>
+              {tray.items.map((item) => (
+                <span
+                  key={item.slug}
+                  className="flex items-center gap-1.5 border border-foreground/10 py-1 pl-3 pr-1.5 font-mono text-xs"
+                >
+                  {item.name}
+                  <button
+                    type="button"
+                    onClick={() => tray.remove(item.slug)}
+                    className="text-foreground/40 transition-colors hover:text-accent"
+                    aria-label={`Remove ${item.name} from compare`}
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+
+              <div className="ml-auto flex items-center gap-4">
+                <button
+                  type="button"
+                  onClick={tray.clear}
+                  className="font-mono text-[10px] uppercase tracking-widest text-muted transition-colors hover:text-foreground"
+                >
+                  Clear
+                </button>
+                {ready ? (
+                  <Link
+                    href={comparePath(tray.items.map((item) => item.slug))}
+                    className="bg-accent px-4 py-2 font-mono text-xs uppercase tracking-widest text-background transition-colors hover:bg-accent-gold"
+                  >
+                    Compare
+                  </Link>
+                ) : (
+                  <span className="font-mono text-[10px] uppercase tracking-widest text-foreground/40">
+                    Add one more
+                  </span>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
@@ -1,40 +1,26 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState } from "react";
 import Image from "next/image";
 import { motion, AnimatePresence } from "framer-motion";
-import { X, ChevronLeft, ChevronRight } from "lucide-react";
+import { BeforeAfter } from "@/components/content/BeforeAfter";
+import { usePhotoParam } from "@/hooks/usePhotoParam";
 import { urlFor } from "@/lib/sanity/client";
-import { cn } from "@/lib/utils";
-import type { GalleryImage } from "@/lib/types";
+import { altText, Lightbox } from "./Lightbox";
+import type { GalleryItem } from "@/lib/types";
 
 interface GalleryProps {
-  images: GalleryImage[];
+  images: GalleryItem[];
+  // Mirror the open photo into ?photo=; one gallery per page can own it
+  deepLink?: boolean;
 }
 
-export function Gallery({ images }: GalleryProps) {
-  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+export function Gallery({ images, deepLink = false }: GalleryProps) {
+  const [localIndex, setLocalIndex] = useState<number | null>(null);
+  const [photoIndex, setPhotoIndex] = usePhotoParam(images.length);
 
-  const openLightbox = useCallback((index: number) => {
-    setLightboxIndex(index);
-    document.body.style.overflow = "hidden";
-  }, []);
-
-  const closeLightbox = useCallback(() => {
-    setLightboxIndex(null);
-    document.body.style.overflow = "";
-  }, []);
-
-  const navigate = useCallback(
-    (direction: -1 | 1) => {
-      if (lightboxIndex === null) return;
-      const next = lightboxIndex + direction;
-      if (next >= 0 && next < images.length) {
-        setLightboxIndex(next);
-      }
-    },
-    [lightboxIndex, images.length]
-  );
+  const lightboxIndex = deepLink ? photoIndex : localIndex;
+  const show = deepLink ? setPhotoIndex : setLocalIndex;
 
   return (
     <>
@@ -48,17 +34,34 @@ export function Gallery({ images }: GalleryProps) {
             whileInView={{ opacity: 1, y: 0 }}
             viewport={{ once: true, margin: "-50px" }}
             transition={{ delay: i * 0.05 }}
-            onClick={() => openLightbox(i)}
+            onClick={() => show(i)}
+            onKeyDown={(e) => {
+              if (e.key !== "Enter" && e.key !== " ") return;
+              e.preventDefault();
+              show(i);
+            }}
             whileHover={{ scale: 1.02 }}
+            role="button"
+            tabIndex={0}
+            aria-label={`View ${altText(image)}`}
           >
-            <Image
-              src={urlFor(image).width(800).quality(80).url()}
-              alt={image.alt || image.caption || "Restaurant photo"}
-              width={800}
-              height={600}
-              className="h-auto w-full object-cover"
-              sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
-            />
+            {image._type === "beforeAfter" ? (
+              <BeforeAfter
+                value={image}
+                width={800}
+                interactive={false}
+                sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
+              />
+            ) : (
+              <Image
+                src={urlFor(image).width(800).quality(80).url()}
+                alt={altText(image)}
+                width={800}
+                height={600}
+                className="h-auto w-full object-cover"
+                sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
+              />
+            )}
             {image.caption && (
               <p className="mt-2 px-1 text-xs text-muted">{image.caption}</p>
             )}
@@ -69,109 +72,12 @@ export function Gallery({ images }: GalleryProps) {
       {/* Lightbox */}
       <AnimatePresence>
         {lightboxIndex !== null && (
-          <motion.div
-            className="fixed inset-0 z-[100] flex flex-col bg-black/95"
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            onClick={closeLightbox}
-          >
-            {/* Close button */}
-            <button
-              onClick={closeLightbox}
-              className="absolute right-4 top-4 z-10 rounded-full p-2 text-white/60 transition-colors hover:text-white"
-              aria-label="Close lightbox"
-            >
-              <X size={24} />
-            </button>
-
-            {/* Main image */}
-            <div
-              className="flex flex-1 items-center justify-center px-4"
-              onClick={(e) => e.stopPropagation()}
-            >
-              <button
-                onClick={() => navigate(-1)}
-                className={cn(
-                  "absolute left-4 rounded-full p-2 text-white/60 transition-colors hover:text-white",
-                  lightboxIndex === 0 && "invisible"
-                )}
-                aria-label="Previous image"
-              >
-                <ChevronLeft size={32} />
-              </button>
-
-              <AnimatePresence mode="wait">
-                <motion.div
-                  key={lightboxIndex}
-                  initial={{ opacity: 0, scale: 0.95 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  exit={{ opacity: 0, scale: 0.95 }}
-                  transition={{ duration: 0.2 }}
-                  className="relative max-h-[80vh] max-w-[90vw]"
-                >
-                  <Image
-                    src={urlFor(images[lightboxIndex]).width(1600).quality(90).url()}
-                    alt={
-                      images[lightboxIndex].alt ||
-                      images[lightboxIndex].caption ||
-                      "Restaurant photo"
-                    }
-                    width={1600}
-                    height={1200}
-                    className="max-h-[80vh] w-auto rounded-sm object-contain"
-                    priority
-                  />
-                </motion.div>
-              </AnimatePresence>
-
-              <button
-                onClick={() => navigate(1)}
-                className={cn(
-                  "absolute right-4 rounded-full p-2 text-white/60 transition-colors hover:text-white",
-                  lightboxIndex === images.length - 1 && "invisible"
-                )}
-                aria-label="Next image"
-              >
-                <ChevronRight size={32} />
-              </button>
-            </div>
-
-            {/* Caption */}
-            {images[lightboxIndex].caption && (
-              <p className="px-8 py-2 text-center text-sm text-white/60">
-                {images[lightboxIndex].caption}
-              </p>
-            )}
-
-            {/* Film strip */}
-            <div
-              className="flex items-center gap-2 overflow-x-auto px-4 py-4"
-              onClick={(e) => e.stopPropagation()}
-            >
-              {images.map((image, i) => (
-                <button
-                  key={image._key || i}
-                  onClick={() => setLightboxIndex(i)}
-                  className={cn(
-                    "relative h-16 w-20 flex-shrink-0 overflow-hidden rounded-sm transition-all",
-                    i === lightboxIndex
-                      ? "ring-2 ring-white"
-                      : "opacity-40 hover:opacity-70"
-                  )}
-                  aria-label={`View image ${i + 1}`}
-                >
-                  <Image
-                    src={urlFor(image).width(160).height(128).quality(60).url()}
-                    alt=""
-                    fill
-                    className="object-cover"
-                    sizes="80px"
-                  />
-                </button>
-              ))}
-            </div>
-          </motion.div>
+          <Lightbox
+            items={images}
+            index={lightboxIndex}
+            onNavigate={show}
+            onClose={() => show(null)}
+          />
         )}
       </AnimatePresence>
     </>
@@ -0,0 +1,360 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Image, { getImageProps } from "next/image";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, ChevronLeft, ChevronRight, Info, ZoomIn, ZoomOut } from "lucide-react";
+import {
+  BeforeAfter,
+  beforeAfterLabels,
+  beforeAfterSize,
+  beforeAfterSrc,
+} from "@/components/content/BeforeAfter";
+import { usePinchZoom } from "@/hooks/usePinchZoom";
+import { useSwipe } from "@/hooks/useSwipe";
+import { exifDetails } from "@/lib/exif";
+import { urlFor } from "@/lib/sanity/client";
+import { cn } from "@/lib/utils";
+import type { BeforeAfterBlock, GalleryItem, LightboxPhoto } from "@/lib/types";
+
+interface LightboxProps {
+  items: GalleryItem[];
+  index: number;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+}
+
+const FOCUSABLE = 'a[href], button:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Before/after pairs are represented by their before photo in the film strip
+function coverImage(item: GalleryItem) {
+  return item._type === "beforeAfter" ? item.before : item;
+}
+
+export function altText(item: GalleryItem) {
+  if (item._type === "beforeAfter") {
+    const labels = beforeAfterLabels(item);
+    return item.caption || `${labels.before} / ${labels.after}`;
+  }
+  return item.alt || item.caption || "Restaurant photo";
+}
+
+function photoSrc(photo: LightboxPhoto) {
+  return urlFor(photo).width(1600).quality(90).url();
+}
+
+// A comparison has no intrinsic size to shrink to, so fit it to the photos' 90vw x 80vh box
+function lightboxWidth(item: BeforeAfterBlock) {
+  const { width, height } = beforeAfterSize(item);
+  return `min(90vw, ${(80 * width) / height}vh)`;
+}
+
+// Warm the browser cache with exactly what the lightbox will ask for — same src, srcset and sizes
+function preload(item: GalleryItem) {
+  const sources =
+    item._type === "beforeAfter"
+      ? [item.before, item.after].map(
+          (side) =>
+            getImageProps({
+              src: beforeAfterSrc(side, beforeAfterSize(item)),
+              alt: "",
+              fill: true,
+              sizes: "90vw",
+            }).props
+        )
+      : [getImageProps({ src: photoSrc(item), alt: "", width: 1600, height: 1200 }).props];
+
+  sources.forEach(({ src, srcSet, sizes }) => {
+    const img = new window.Image();
+    if (sizes) img.sizes = sizes;
+    if (srcSet) img.srcset = srcSet;
+    img.src = src;
+  });
+}
+
+function InfoPanel({ item }: { item: GalleryItem }) {
+  const camera = item._type === "beforeAfter" ? null : exifDetails(item.exif, item.camera);
+  const details =
+    item._type === "beforeAfter"
+      ? [
+          { label: "Caption", value: item.caption },
+          { label: beforeAfterLabels(item).before, value: item.before.alt },
+          { label: beforeAfterLabels(item).after, value: item.after.alt },
+        ]
+      : [
+          { label: "Caption", value: item.caption },
+          { label: "Alt text", value: item.alt },
+          ...(camera ?? []),
+        ];
+
+  return (
+    <dl className="space-y-5">
+      {details
+        .filter((row) => row.value)
+        .map((row, i) => (
+          <div key={i}>
+            <dt className="font-mono text-[10px] uppercase tracking-widest text-white/40">
+              {row.label}
+            </dt>
+            <dd className="mt-1 text-sm text-white/80">{row.value}</dd>
+          </div>
+        ))}
+      {camera?.length === 0 && (
+        <p className="text-xs text-white/40">No camera details were recorded for this photo.</p>
+      )}
+    </dl>
+  );
+}
+
+export function Lightbox({ items, index, onNavigate, onClose }: LightboxProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const [showInfo, setShowInfo] = useState(false);
+  const current = items[index];
+
+  const canGo = (next: number) => next >= 0 && next < items.length && next !== index;
+
+  // A swipe only starts unzoomed, so there's nothing to reset
+  const swipe = (direction: -1 | 1) => {
+    if (canGo(index + direction)) onNavigate(index + direction);
+  };
+  const { stageRef, contentRef, handlers, style, zoomed, zoomTo, toggleZoom, reset } =
+    usePinchZoom(swipe);
+  // Dragging a comparison moves its divider, so it pages from the space around it instead
+  const backdropSwipe = useSwipe(swipe);
+
+  const go = (next: number) => {
+    if (!canGo(next)) return;
+    reset();
+    onNavigate(next);
+  };
+
+  // Hold the page still while open, and hand focus back to whatever opened it
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    document.body.style.overflow = "hidden";
+    closeRef.current?.focus();
+
+    return () => {
+      document.body.style.overflow = "";
+      opener?.focus();
+    };
+  }, []);
+
+  useEffect(() => {
+    [items[index - 1], items[index + 1]].forEach((item) => item && preload(item));
+  }, [items, index]);
+
+  // Tab and Shift+Tab wrap around inside the dialog
+  const trapFocus = (e: React.KeyboardEvent) => {
+    const focusable = dialogRef.current?.querySelectorAll<HTMLElement>(FOCUSABLE);
+    if (!focusable?.length) return;
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const isPhoto = current._type !== "beforeAfter";
+
+    switch (e.key) {
+      case "Tab":
+        trapFocus(e);
+        return;
+      case "Escape":
+        onClose();
+        break;
+      case "ArrowLeft":
+        go(index - 1);
+        break;
+      case "ArrowRight":
+        go(index + 1);
+        break;
+      case "+":
+      case "=":
+        if (!isPhoto) return;
+        zoomTo(2.5);
+        break;
+      case "-":
+        if (!isPhoto) return;
+        zoomTo(1);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <motion.div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Photo viewer"
+      className="fixed inset-0 z-[100] flex flex-col bg-black/95"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      onKeyDown={handleKeyDown}
+    >
+      {/* Toolbar */}
+      <div
+        className="flex items-center justify-between px-4 py-3 text-white/60"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <p className="font-mono text-xs uppercase tracking-widest" aria-live="polite">
+          {index + 1} / {items.length}
+        </p>
+        <div className="flex items-center gap-1">
+          {current._type !== "beforeAfter" && (
+            <button
+              onClick={() => toggleZoom()}
+              className="rounded-full p-2 transition-colors hover:text-white"
+              aria-label={zoomed ? "Zoom out" : "Zoom in"}
+            >
+              {zoomed ? <ZoomOut size={20} /> : <ZoomIn size={20} />}
+            </button>
+          )}
+          <button
+            onClick={() => setShowInfo((open) => !open)}
+            className={cn(
+              "rounded-full p-2 transition-colors hover:text-white",
+              showInfo && "text-white"
+            )}
+            aria-label="Photo details"
+            aria-pressed={showInfo}
+          >
+            <Info size={20} />
+          </button>
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            className="rounded-full p-2 transition-colors hover:text-white"
+            aria-label="Close lightbox"
+          >
+            <X size={24} />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative flex min-h-0 flex-1" onClick={(e) => e.stopPropagation()}>
+        {/* Main image */}
+        <div
+          {...(current._type === "beforeAfter" && backdropSwipe)}
+          className={cn(
+            "relative flex flex-1 items-center justify-center overflow-hidden px-4",
+            current._type === "beforeAfter" && "touch-pan-y"
+          )}
+        >
+          {/* aria-disabled, not disabled: a disabled button would drop focus out of the dialog */}
+          <button
+            onClick={() => go(index - 1)}
+            aria-disabled={index === 0}
+            className="absolute left-4 z-10 rounded-full p-2 text-white/60 transition-colors hover:text-white aria-disabled:cursor-default aria-disabled:opacity-20 aria-disabled:hover:text-white/60"
+            aria-label="Previous image"
+          >
+            <ChevronLeft size={32} />
+          </button>
+
+          <AnimatePresence mode="wait">
+            <motion.div
+              key={index}
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              transition={{ duration: 0.2 }}
+              className="relative max-h-[80vh] max-w-[90vw]"
+            >
+              {current._type === "beforeAfter" ? (
+                <BeforeAfter value={current} sizes="90vw" style={{ width: lightboxWidth(current) }} />
+              ) : (
+                <div
+                  ref={stageRef}
+                  {...handlers}
+                  className={cn("touch-none", zoomed ? "cursor-grab" : "cursor-zoom-in")}
+                >
+                  <motion.div ref={contentRef} style={style}>
+                    <Image
+                      src={photoSrc(current)}
+                      alt={altText(current)}
+                      width={1600}
+                      height={1200}
+                      draggable={false}
+                      className="max-h-[80vh] w-auto select-none rounded-sm object-contain"
+                      priority
+                    />
+                  </motion.div>
+                </div>
+              )}
+            </motion.div>
+          </AnimatePresence>
+
+          <button
+            onClick={() => go(index + 1)}
+            aria-disabled={index === items.length - 1}
+            className="absolute right-4 z-10 rounded-full p-2 text-white/60 transition-colors hover:text-white aria-disabled:cursor-default aria-disabled:opacity-20 aria-disabled:hover:text-white/60"
+            aria-label="Next image"
+          >
+            <ChevronRight size={32} />
+          </button>
+        </div>
+
+        {/* Info panel */}
+        <AnimatePresence>
+          {showInfo && (
+            <motion.aside
+              className="absolute inset-x-0 bottom-0 z-20 max-h-[60%] overflow-y-auto border-t border-white/10 bg-black/90 p-6 backdrop-blur-sm md:static md:max-h-none md:w-80 md:border-l md:border-t-0"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.2 }}
+              aria-label="Photo details"
+            >
+              <InfoPanel item={current} />
+            </motion.aside>
+          )}
+        </AnimatePresence>
+      </div>
+
+      {/* Caption */}
+      {current.caption && (
+        <p className="px-8 py-2 text-center text-sm text-white/60">{current.caption}</p>
+      )}
+
+      {/* Film strip */}
+      <div
+        className="flex items-center gap-2 overflow-x-auto px-4 py-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {items.map((item, i) => (
+          <button
+            key={item._key || i}
+            onClick={() => go(i)}
+            className={cn(
+              "relative h-16 w-20 flex-shrink-0 overflow-hidden rounded-sm transition-all",
+              i === index ? "ring-2 ring-white" : "opacity-40 hover:opacity-70"
+            )}
+            aria-label={`View image ${i + 1}`}
+            aria-current={i === index || undefined}
+          >
+            <Image
+              src={urlFor(coverImage(item)).width(160).height(128).quality(60).url()}
+              alt=""
+              fill
+              className="object-cover"
+              sizes="80px"
+            />
+          </button>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
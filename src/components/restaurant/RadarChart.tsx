@@ -0,0 +1,151 @@
+"use client";
+
+import { useId } from "react";
+import { motion } from "framer-motion";
+
+export interface RadarSeries {
+  label: string;
+  color: string;
+  // One value per axis, on the 1–10 score scale
+  values: number[];
+  // Drawn as an outline only, behind the filled series
+  dashed?: boolean;
+}
+
+interface RadarChartProps {
+  axes: string[];
+  series: RadarSeries[];
+  title: string;
+  size?: number;
+}
+
+const RINGS = [2, 4, 6, 8, 10];
+const LABEL_GAP = 18;
+
+function pointAt(axis: number, count: number, value: number, radius: number) {
+  // First axis points straight up, the rest follow clockwise
+  const angle = (axis / count) * Math.PI * 2 - Math.PI / 2;
+  const r = (value / 10) * radius;
+  return { x: Math.cos(angle) * r, y: Math.sin(angle) * r };
+}
+
+function toPoints(values: number[], radius: number) {
+  return values
+    .map((v, i) => pointAt(i, values.length, v, radius))
+    .map((p) => `${p.x.toFixed(2)},${p.y.toFixed(2)}`)
+    .join(" ");
+}
+
+export function RadarChart({ axes, series, title, size = 280 }: RadarChartProps) {
+  const id = useId();
+  const radius = size / 2 - LABEL_GAP * 2;
+  const center = toPoints(axes.map(() => 0), radius);
+  const description = series
+    .map((s) => `${s.label}: ${axes.map((axis, i) => `${axis} ${Number(s.values[i].toFixed(1))}`).join(", ")}`)
+    .join(". ");
+
+  return (
+    <figure>
+      <svg
+        viewBox={`${-size / 2} ${-size / 2} ${size} ${size}`}
+        className="h-auto w-full overflow-visible"
+        role="img"
+        aria-labelledby={`${id}-title`}
+        aria-describedby={`${id}-desc`}
+      >
+        <title id={`${id}-title`}>{title}</title>
+        <desc id={`${id}-desc`}>{description}</desc>
+
+        {/* Grid */}
+        {RINGS.map((ring) => (
+          <polygon
+            key={ring}
+            points={toPoints(axes.map(() => ring), radius)}
+            fill="none"
+            stroke="var(--foreground)"
+            strokeOpacity={ring === 10 ? 0.15 : 0.05}
+          />
+        ))}
+        {axes.map((axis, i) => {
+          const end = pointAt(i, axes.length, 10, radius);
+          const label = pointAt(i, axes.length, 10, radius + LABEL_GAP);
+          return (
+            <g key={axis}>
+              <line x1={0} y1={0} x2={end.x} y2={end.y} stroke="var(--foreground)" strokeOpacity={0.05} />
+              <text
+                x={label.x}
+                y={label.y}
+                textAnchor={Math.abs(label.x) < 1 ? "middle" : label.x > 0 ? "start" : "end"}
+                dominantBaseline="middle"
+                className="fill-[var(--muted)] font-mono text-[9px] uppercase tracking-widest"
+              >
+                {axis}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Series grow out from the center */}
+        {series.map((s, i) => (
+          <motion.polygon
+            key={s.label}
+            fill={s.dashed ? "none" : s.color}
+            fillOpacity={0.15}
+            stroke={s.color}
+            strokeWidth={1.5}
+            strokeDasharray={s.dashed ? "4 3" : undefined}
+            strokeLinejoin="round"
+            initial={{ points: center }}
+            whileInView={{ points: toPoints(s.values, radius) }}
+            viewport={{ once: true }}
+            transition={{ duration: 0.8, delay: i * 0.15, ease: [0.22, 1, 0.36, 1] }}
+          />
+        ))}
+      </svg>
+
+      {/* Text fallback for screen readers */}
+      <table className="sr-only">
+        <caption>{title}</caption>
+        <thead>
+          <tr>
+            <th scope="col">Series</th>
+            {axes.map((axis) => (
+              <th key={axis} scope="col">
+                {axis}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {series.map((s) => (
+            <tr key={s.label}>
+              <th scope="row">{s.label}</th>
+              {s.values.map((value, i) => (
+                <td key={axes[i]}>{Number(value.toFixed(1))}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Legend */}
+      {series.length > 1 && (
+        <figcaption className="mt-4 flex flex-wrap justify-center gap-x-4 gap-y-2" aria-hidden="true">
+          {series.map((s) => (
+            <span key={s.label} className="flex items-center gap-2 font-mono text-[10px] uppercase tracking-widest text-muted">
+              <span
+                className="h-0.5 w-4"
+                style={{
+                  background: s.dashed
+                    ? `repeating-linear-gradient(90deg, ${s.color} 0 4px, transparent 4px 7px)`
+                    : s.color,
+                }}
+              />
+              {s.label}
+            </span>
+          ))}
+        </figcaption>
+      )}
+    </figure>
+  );
+}
@@ -1,19 +1,25 @@
 "use client";
 
+import { useState } from "react";
 import { motion } from "framer-motion";
+import { RadarChart } from "./RadarChart";
 import { cn } from "@/lib/utils";
+import { overallScore } from "@/lib/scoring";
+import type { Restaurant, ScoreProfile, Scores, ScoringRubric } from "@/lib/types";
+
+export type ScoreView = "bars" | "radar";
 
 interface ScoreBreakdownProps {
-  scores: {
-    taste: number;
-    vibe: number;
-    service: number;
-    value: number;
-  };
-  rickFactor: {
-    score: number;
-    description: string;
-  };
+  scores: Scores;
+  rickFactor: Restaurant["rickFactor"];
+  rubric?: ScoringRubric;
+  currentRubricVersion?: number;
+  // Scores from every visit, oldest first — draws a sparkline per category
+  history?: Scores[];
+  // Pins the view; leave it out to let the reader switch between bars and radar
+  view?: ScoreView;
+  // The collection's typical review, overlaid on the radar
+  average?: ScoreProfile | null;
 }
 
 const categories = [
@@ -23,18 +29,89 @@ const categories = [
   { key: "value", label: "Value" },
 ] as const;
 
-function ScoreBar({ label, score, delay }: { label: string; score: number; delay: number }) {
+const VIEWS: { view: ScoreView; label: string }[] = [
+  { view: "bars", label: "Bars" },
+  { view: "radar", label: "Radar" },
+];
+
+function profileValues(profile: ScoreProfile) {
+  return [...categories.map((cat) => profile[cat.key]), profile.rickFactor];
+}
+
+function Sparkline({ values, delay }: { values: number[]; delay: number }) {
+  const width = 48;
+  const height = 14;
+  // Scores run 1–10, so map that range onto the sparkline height
+  const coords = values.map((v, i) => ({
+    x: (i / (values.length - 1)) * width,
+    y: height - ((v - 1) / 9) * height,
+  }));
+  const last = coords[coords.length - 1];
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`-2 -2 ${width + 4} ${height + 4}`}
+      className="overflow-visible"
+      aria-label={`Across visits: ${values.join(", ")}`}
+      role="img"
+    >
+      <motion.polyline
+        points={coords.map((c) => `${c.x},${c.y}`).join(" ")}
+        fill="none"
+        stroke="var(--muted)"
+        strokeWidth="1"
+        strokeLinejoin="round"
+        initial={{ pathLength: 0 }}
+        whileInView={{ pathLength: 1 }}
+        viewport={{ once: true }}
+        transition={{ duration: 0.8, delay, ease: [0.22, 1, 0.36, 1] }}
+      />
+      <circle cx={last.x} cy={last.y} r="1.5" fill="var(--accent)" />
+    </svg>
+  );
+}
+
+export function ScoreBar({
+  label,
+  score,
+  delay,
+  history,
+  compact,
+  active,
+}: {
+  label: string;
+  score: number;
+  delay: number;
+  history?: number[];
+  compact?: boolean;
+  active?: boolean;
+}) {
   const percentage = (score / 10) * 100;
 
   return (
-    <div className="space-y-2">
-      <div className="flex items-center justify-between">
-        <span className="font-mono text-xs uppercase tracking-widest text-muted">{label}</span>
-        <span className="font-mono text-sm font-semibold">{score}</span>
+    <div className={compact ? "space-y-1.5" : "space-y-2"}>
+      <div className="flex items-center justify-between gap-2">
+        <span
+          className={cn(
+            "font-mono uppercase tracking-widest",
+            compact ? "text-[10px]" : "text-xs",
+            active ? "text-accent" : "text-muted"
+          )}
+        >
+          {label}
+        </span>
+        <div className="flex items-center gap-3">
+          {history && history.length > 1 && <Sparkline values={history} delay={delay} />}
+          <span className={cn("font-mono font-semibold", compact ? "text-xs" : "text-sm")}>
+            {Number(score.toFixed(1))}
+          </span>
+        </div>
       </div>
       <div className="h-0.5 w-full overflow-hidden rounded-none bg-foreground/5">
         <motion.div
-          className="h-full rounded-none bg-foreground"
+          className={cn("h-full rounded-none", active ? "bg-accent" : "bg-foreground")}
           initial={{ width: 0 }}
           whileInView={{ width: `${percentage}%` }}
           viewport={{ once: true }}
@@ -45,8 +122,51 @@ function ScoreBar({ label, score, delay }: { label: string; score: number; delay
   );
 }
 
-export function ScoreBreakdown({ scores, rickFactor }: ScoreBreakdownProps) {
-  const overall = (scores.taste + scores.vibe + scores.service + scores.value) / 4;
+// One row of thin bars for lists — the categories plus the Rick Factor, no overall
+export function CompactScoreBars({
+  scores,
+  rickFactor,
+  highlight,
+}: {
+  scores: Scores;
+  rickFactor: number;
+  highlight?: string;
+}) {
+  const bars = [
+    ...categories.map((cat) => ({ ...cat, score: scores[cat.key] })),
+    { key: "rickFactor", label: "Rick", score: rickFactor },
+  ];
+
+  return (
+    <div className="grid grid-cols-5 gap-3">
+      {bars.map((bar, i) => (
+        <ScoreBar
+          key={bar.key}
+          label={bar.label}
+          score={bar.score}
+          delay={i * 0.05}
+          compact
+          active={highlight === bar.key}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function ScoreBreakdown({
+  scores,
+  rickFactor,
+  rubric,
+  currentRubricVersion,
+  history,
+  view,
+  average,
+}: ScoreBreakdownProps) {
+  const [chosenView, setChosenView] = useState<ScoreView>("bars");
+  const activeView = view ?? chosenView;
+  const overall = overallScore(scores, rubric, rickFactor?.score);
+  const outdatedRubric =
+    rubric && currentRubricVersion != null && rubric.version < currentRubricVersion;
 
   return (
     <div className="space-y-8">
@@ -61,19 +181,72 @@ export function ScoreBreakdown({ scores, rickFactor }: ScoreBreakdownProps) {
           <span className="font-mono text-5xl font-bold">{overall.toFixed(1)}</span>
         </motion.div>
         <p className="mt-2 font-mono text-xs uppercase tracking-widest text-muted">Overall</p>
+        {outdatedRubric && (
+          <p
+            className="mt-1 font-mono text-[10px] uppercase tracking-widest text-foreground/40"
+            title={rubric.note ?? undefined}
+          >
+            Scored under v{rubric.version} rubric
+          </p>
+        )}
       </div>
 
+      {/* Bars / radar switch */}
+      {!view && (
+        <div className="flex justify-end gap-1" role="group" aria-label="Score view">
+          {VIEWS.map((option) => (
+            <button
+              key={option.view}
+              type="button"
+              onClick={() => setChosenView(option.view)}
+              aria-pressed={activeView === option.view}
+              className={cn(
+                "px-2 py-1 font-mono text-[10px] uppercase tracking-widest transition-colors",
+                activeView === option.view ? "text-accent" : "text-foreground/40 hover:text-foreground/70"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Individual scores */}
-      <div className="space-y-4">
-        {categories.map((cat, i) => (
-          <ScoreBar
-            key={cat.key}
-            label={cat.label}
-            score={scores[cat.key]}
-            delay={i * 0.1}
-          />
-        ))}
-      </div>
+      {activeView === "radar" ? (
+        <RadarChart
+          title={average ? "Score profile against the collection average" : "Score profile"}
+          axes={[...categories.map((cat) => cat.label), "Rick Factor"]}
+          series={[
+            ...(average
+              ? [
+                  {
+                    label: "Collection average",
+                    color: "var(--muted)",
+                    values: profileValues(average),
+                    dashed: true,
+                  },
+                ]
+              : []),
+            {
+              label: "This review",
+              color: "var(--accent)",
+              values: profileValues({ ...scores, rickFactor: rickFactor.score }),
+            },
+          ]}
+        />
+      ) : (
+        <div className="space-y-4">
+          {categories.map((cat, i) => (
+            <ScoreBar
+              key={cat.key}
+              label={cat.label}
+              score={scores[cat.key]}
+              delay={i * 0.1}
+              history={history?.map((h) => h[cat.key])}
+            />
+          ))}
+        </div>
+      )}
 
       {/* The Rick Factor */}
       <motion.div
@@ -1,15 +1,18 @@
 "use client";
 
+import Link from "next/link";
 import { motion } from "framer-motion";
+import { browsePath } from "@/lib/browse";
 
 interface StatsBarProps {
   overallScore: number;
   priceRange: string;
   cuisine: string;
-  location: { city: string; state: string };
+  location: { neighborhood?: string; city: string; state: string };
+  vibeColor?: string | null;
 }
 
-export function StatsBar({ overallScore, priceRange, cuisine, location }: StatsBarProps) {
+export function StatsBar({ overallScore, priceRange, cuisine, location, vibeColor }: StatsBarProps) {
   return (
     <motion.div
       className="sticky top-0 z-40 border-b border-foreground/5 bg-background/90 backdrop-blur-sm md:top-20"
@@ -17,13 +20,34 @@ export function StatsBar({ overallScore, priceRange, cuisine, location }: StatsB
       animate={{ opacity: 1, y: 0 }}
       transition={{ delay: 0.3 }}
     >
+      {/* Vibe color accent line */}
+      {vibeColor && (
+        <div className="absolute inset-x-0 bottom-0 h-px" style={{ background: vibeColor }} />
+      )}
+
       <div className="mx-auto flex max-w-5xl items-center justify-between px-6 py-4">
         <div className="flex items-center gap-0 font-mono text-sm">
+          {location.neighborhood && (
+            <>
+              <Link
+                href={browsePath("neighborhood", location.neighborhood)}
+                className="font-mono transition-colors hover:text-accent"
+              >
+                {location.neighborhood}
+              </Link>
+              <span className="mx-2 text-muted">&middot;</span>
+            </>
+          )}
           <span className="font-mono">
             {location.city}, {location.state}
           </span>
           <span className="mx-2 text-muted">&middot;</span>
-          <span className="font-mono">{cuisine}</span>
+          <Link
+            href={browsePath("cuisine", cuisine)}
+            className="font-mono transition-colors hover:text-accent"
+          >
+            {cuisine}
+          </Link>
           <span className="mx-2 text-muted">&middot;</span>
           <span className="font-mono">{priceRange}</span>
         </div>
@@ -0,0 +1,76 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { urlFor } from "@/lib/sanity/client";
+import { formatPrice, orderDishes } from "@/lib/dishes";
+import type { Dish } from "@/lib/types";
+
+interface WhatToOrderProps {
+  dishes: Dish[];
+}
+
+export function WhatToOrder({ dishes }: WhatToOrderProps) {
+  const ordered = orderDishes(dishes);
+
+  return (
+    <div>
+      <div className="grid gap-8 sm:grid-cols-2">
+        {ordered.map((dish, i) => (
+          <motion.article
+            key={dish._key}
+            className="group"
+            initial={{ opacity: 0, y: 30 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, margin: "-50px" }}
+            transition={{ delay: i * 0.05, duration: 0.6, ease: [0.22, 1, 0.36, 1] }}
+          >
+            {dish.photo?.asset && (
+              <div className="relative mb-4 aspect-[4/3] overflow-hidden rounded-sm">
+                <Image
+                  src={urlFor(dish.photo).width(800).height(600).fit("crop").quality(80).url()}
+                  alt={dish.photo.alt || dish.name}
+                  fill
+                  className="object-cover transition-transform duration-700 group-hover:scale-105"
+                  sizes="(max-width: 640px) 100vw, 50vw"
+                  placeholder={dish.photo.lqip ? "blur" : "empty"}
+                  blurDataURL={dish.photo.lqip ?? undefined}
+                />
+                {dish.mustOrder && (
+                  <span className="absolute left-3 top-3 bg-accent px-2 py-1 font-mono text-[10px] uppercase tracking-widest text-background">
+                    Must Order
+                  </span>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-baseline justify-between gap-4">
+              <h3 className="font-heading text-2xl font-semibold leading-snug">{dish.name}</h3>
+              <span className="font-mono text-xl font-bold text-accent">{dish.score}</span>
+            </div>
+
+            <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 font-mono text-xs uppercase tracking-widest text-muted">
+              {!dish.photo?.asset && dish.mustOrder && (
+                <span className="text-accent">Must Order</span>
+              )}
+              {formatPrice(dish.price) && <span>{formatPrice(dish.price)}</span>}
+              {dish.tags?.map((tag) => (
+                <span key={tag} className="text-foreground/40">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          </motion.article>
+        ))}
+      </div>
+
+      <Link
+        href="/dishes"
+        className="mt-10 inline-block text-sm uppercase tracking-widest text-accent underline underline-offset-4 decoration-accent/40 transition-colors hover:text-accent-gold hover:decoration-accent"
+      >
+        The Best Dishes in Houston
+      </Link>
+    </div>
+  );
+}
@@ -9,16 +9,6 @@ import type { TimelineRestaurant } from "@/lib/types";
 
 gsap.registerPlugin(ScrollTrigger);
 
-// Houston food scene Unsplash photos
-const MOCK_IMAGES = [
-  "https://images.unsplash.com/photo-1544025162-d76694265947?w=800&q=80",
-  "https://images.unsplash.com/photo-1565299585323-38d6b0865b47?w=800&q=80",
-  "https://images.unsplash.com/photo-1582878826629-29b7ad1cdc43?w=800&q=80",
-  "https://images.unsplash.com/photo-1559339352-11d035aa65de?w=800&q=80",
-  "https://images.unsplash.com/photo-1414235077428-338989a2e8c0?w=800&q=80",
-  "https://images.unsplash.com/photo-1567620905732-2d1ec7ab7445?w=800&q=80",
-];
-
 interface Props {
   restaurants: TimelineRestaurant[];
 }
@@ -72,7 +62,6 @@ export function HorizontalTimeline({ restaurants }: Props) {
               <TimelinePanel
                 restaurant={restaurant}
                 index={i}
-                imageUrl={MOCK_IMAGES[i % MOCK_IMAGES.length]}
               />
             </div>
           ))}
@@ -92,7 +81,6 @@ export function HorizontalTimeline({ restaurants }: Props) {
                 key={restaurant._id}
                 restaurant={restaurant}
                 index={i}
-                imageUrl={MOCK_IMAGES[i % MOCK_IMAGES.length]}
               />
             ))}
 
@@ -3,56 +3,39 @@
 import { useRef, useEffect, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
+import { ScoreCounter } from "@/components/effects/ScoreCounter";
 import { TextScramble } from "@/components/effects/TextScramble";
+import { browsePath } from "@/lib/browse";
+import { urlFor } from "@/lib/sanity/client";
+import { cn } from "@/lib/utils";
 import type { TimelineRestaurant } from "@/lib/types";
 
 interface Props {
   restaurant: TimelineRestaurant;
   index: number;
-  imageUrl: string;
+  // "track" fills a screen of the horizontal timeline; "stack" sizes to its content for lists
+  layout?: "track" | "stack";
 }
 
-function ScoreCounter({ value }: { value: number }) {
-  const [display, setDisplay] = useState(0);
-  const ref = useRef<HTMLSpanElement>(null);
-  const hasAnimated = useRef(false);
-
-  useEffect(() => {
-    const el = ref.current;
-    if (!el) return;
-
-    const observer = new IntersectionObserver(
-      ([entry]) => {
-        if (entry.isIntersecting && !hasAnimated.current) {
-          hasAnimated.current = true;
-          const duration = 800;
-          const start = performance.now();
-
-          const tick = (now: number) => {
-            const elapsed = now - start;
-            const progress = Math.min(elapsed / duration, 1);
-            const eased = 1 - Math.pow(1 - progress, 3);
-            setDisplay(parseFloat((eased * value).toFixed(1)));
-            if (progress < 1) requestAnimationFrame(tick);
-          };
-          requestAnimationFrame(tick);
-        }
-      },
-      { threshold: 0.5 }
-    );
-
-    observer.observe(el);
-    return () => observer.disconnect();
-  }, [value]);
+const metaLink = "transition-colors hover:text-accent";
 
+// Shown when a restaurant has no gallery yet — sunset wash in its vibe color
+function PanelPlaceholder({ name, accent }: { name: string; accent: string }) {
   return (
-    <span ref={ref} className="font-mono text-4xl font-bold text-accent">
-      {display.toFixed(1)}
-    </span>
+    <div
+      className="absolute inset-0 flex items-center justify-center"
+      style={{
+        background: `radial-gradient(ellipse 120% 60% at 50% 100%, color-mix(in srgb, ${accent} 45%, transparent) 0%, transparent 70%), linear-gradient(to bottom, var(--background-secondary), var(--background))`,
+      }}
+    >
+      <span className="font-heading text-[10rem] font-bold italic leading-none text-foreground/10">
+        {name.charAt(0)}
+      </span>
+    </div>
   );
 }
 
-export function TimelinePanel({ restaurant, index, imageUrl }: Props) {
+export function TimelinePanel({ restaurant, index, layout = "track" }: Props) {
   const [revealed, setRevealed] = useState(false);
   const panelRef = useRef<HTMLDivElement>(null);
 
@@ -71,12 +54,32 @@ export function TimelinePanel({ restaurant, index, imageUrl }: Props) {
     return () => observer.disconnect();
   }, []);
 
+  const accent = restaurant.vibeColor ?? "var(--accent)";
+
   return (
     <div
       ref={panelRef}
-      className="relative flex min-h-screen w-full flex-shrink-0 items-center px-4 md:h-screen md:w-[80vw] md:px-16"
+      className={cn(
+        "relative flex w-full flex-shrink-0 items-center",
+        layout === "track" && "min-h-screen px-4 md:h-screen md:w-[80vw] md:px-16"
+      )}
     >
-      <div className="relative z-10 grid h-full w-full grid-cols-1 items-center gap-8 py-20 md:grid-cols-2 md:gap-16">
+      {/* Back layer: color blob in the restaurant's vibe color */}
+      <div
+        aria-hidden
+        className="pointer-events-none absolute left-0 top-1/2 h-[70vh] w-[70vh] -translate-y-1/2 rounded-full blur-3xl transition-opacity duration-[1.5s]"
+        style={{
+          background: `radial-gradient(circle, color-mix(in srgb, ${accent} 35%, transparent) 0%, transparent 70%)`,
+          opacity: revealed ? 1 : 0,
+        }}
+      />
+
+      <div
+        className={cn(
+          "relative z-10 grid h-full w-full grid-cols-1 items-center gap-8 md:grid-cols-2 md:gap-16",
+          layout === "track" ? "py-20" : "py-12"
+        )}
+      >
         {/* Image with clip-path reveal */}
         <Link
           href={`/restaurant/${restaurant.slug.current}`}
@@ -91,14 +94,20 @@ export function TimelinePanel({ restaurant, index, imageUrl }: Props) {
                 : "inset(0% 100% 0% 0%)",
             }}
           >
-            <Image
-              src={imageUrl}
-              alt={restaurant.name}
-              fill
-              className="object-cover transition-all duration-700 group-hover:scale-105 group-hover:saturate-100"
-              style={{ filter: "saturate(0.85)" }}
-              sizes="(max-width: 768px) 80vw, 40vw"
-            />
+            {restaurant.heroImage ? (
+              <Image
+                src={urlFor(restaurant.heroImage).width(800).height(1000).fit("crop").quality(80).url()}
+                alt={restaurant.heroImage.alt || restaurant.name}
+                fill
+                className="object-cover transition-all duration-700 group-hover:scale-105 group-hover:saturate-100"
+                style={{ filter: "saturate(0.85)" }}
+                sizes="(max-width: 768px) 80vw, 40vw"
+                placeholder={restaurant.heroImage.lqip ? "blur" : "empty"}
+                blurDataURL={restaurant.heroImage.lqip ?? undefined}
+              />
+            ) : (
+              <PanelPlaceholder name={restaurant.name} accent={accent} />
+            )}
           </div>
         </Link>
 
@@ -111,7 +120,10 @@ export function TimelinePanel({ restaurant, index, imageUrl }: Props) {
           }}
         >
           {/* Index number */}
-          <span className="font-mono text-xs text-foreground/30">{String(index + 1).padStart(2, '0')}</span>
+          <div className="flex items-center gap-3">
+            <span className="h-px w-8" style={{ background: accent }} />
+            <span className="font-mono text-xs text-foreground/30">{String(index + 1).padStart(2, '0')}</span>
+          </div>
 
           {/* Date */}
           <p className="font-mono text-xs uppercase tracking-[0.3em] text-accent-gold">
@@ -119,6 +131,9 @@ export function TimelinePanel({ restaurant, index, imageUrl }: Props) {
               "en-US",
               { year: "numeric", month: "long" }
             )}
+            {restaurant.visitNumber && restaurant.visitNumber > 1 && (
+              <span className="text-muted"> &middot; Return Visit No. {restaurant.visitNumber}</span>
+            )}
           </p>
 
           {/* Restaurant name with scramble effect */}
@@ -131,9 +146,19 @@ export function TimelinePanel({ restaurant, index, imageUrl }: Props) {
 
           {/* Meta */}
           <div className="flex items-center gap-4 font-mono text-sm text-muted">
-            <span>{restaurant.cuisine}</span>
+            <Link href={browsePath("cuisine", restaurant.cuisine)} className={metaLink}>
+              {restaurant.cuisine}
+            </Link>
             <span className="text-foreground/20">|</span>
             <span>{restaurant.priceRange}</span>
+            {restaurant.neighborhood && (
+              <>
+                <span className="text-foreground/20">|</span>
+                <Link href={browsePath("neighborhood", restaurant.neighborhood)} className={metaLink}>
+                  {restaurant.neighborhood}
+                </Link>
+              </>
+            )}
           </div>
 
           {/* Score */}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { MAX_COMPARE, type CompareItem } from "@/lib/compare";
+
+const STORAGE_KEY = "rickscafe:compare";
+const EMPTY: CompareItem[] = [];
+
+const listeners = new Set<() => void>();
+let snapshot: { raw: string | null; items: CompareItem[] } = { raw: null, items: EMPTY };
+
+// Re-parse only when the stored string changes, so the snapshot stays referentially stable
+function read() {
+  const raw = window.localStorage.getItem(STORAGE_KEY);
+  if (raw !== snapshot.raw) {
+    let items = EMPTY;
+    try {
+      items = raw ? JSON.parse(raw) : EMPTY;
+    } catch {
+      // Corrupt entry — start the tray over
+    }
+    snapshot = { raw, items };
+  }
+  return snapshot.items;
+}
+
+function write(items: CompareItem[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+// The "add to compare" tray, shared across tabs; a full tray drops its oldest pick
+export function useCompareTray() {
+  const items = useSyncExternalStore(subscribe, read, () => EMPTY);
+
+  return {
+    items,
+    has: (slug: string) => items.some((item) => item.slug === slug),
+    add: (item: CompareItem) =>
+      write([...read().filter((i) => i.slug !== item.slug), item].slice(-MAX_COMPARE)),
+    remove: (slug: string) => write(read().filter((i) => i.slug !== slug)),
+    clear: () => write(EMPTY),
+  };
+}
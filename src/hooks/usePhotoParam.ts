@@ -0,0 +1,41 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+const PARAM = "photo";
+
+const listeners = new Set<() => void>();
+
+function read() {
+  return new URLSearchParams(window.location.search).get(PARAM);
+}
+
+// replaceState fires no event of its own, so subscribers are told directly
+function write(value: string | null) {
+  const url = new URL(window.location.href);
+  if (value === null) url.searchParams.delete(PARAM);
+  else url.searchParams.set(PARAM, value);
+  window.history.replaceState(null, "", url);
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("popstate", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("popstate", listener);
+  };
+}
+
+// The open lightbox photo as a 1-based ?photo=3, so a link opens straight to it.
+// Static pages render with it closed and open on hydration
+export function usePhotoParam(count: number) {
+  const raw = useSyncExternalStore(subscribe, read, () => null);
+  const photo = raw && /^\d+$/.test(raw) ? Number(raw) : 0;
+
+  return [
+    photo >= 1 && photo <= count ? photo - 1 : null,
+    (index: number | null) => write(index === null ? null : String(index + 1)),
+  ] as const;
+}
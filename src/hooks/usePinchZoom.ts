@@ -0,0 +1,205 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { animate, useMotionValue, type MotionValue } from "framer-motion";
+import { useReducedMotion } from "./useReducedMotion";
+import { swipeDirection } from "./useSwipe";
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_MS = 300;
+// How far a finger can wander and still count as a tap
+const TAP_SLOP = 10;
+
+type Point = { x: number; y: number };
+
+interface Gesture {
+  points: Point[];
+  scale: number;
+  x: number;
+  y: number;
+  time: number;
+  // Began as a single touch: the only kind that can be a tap or a swipe
+  single: boolean;
+  moved: boolean;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const midpoint = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Swipe to page, pinch or double-tap to zoom, drag to pan while zoomed. The stage stays
+// put and measures; the content inside it is what scales and moves
+export function usePinchZoom(onSwipe: (direction: -1 | 1) => void) {
+  const stageRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const scale = useMotionValue(1);
+  const x = useMotionValue(0);
+  const y = useMotionValue(0);
+  const [zoomed, setZoomed] = useState(false);
+  const prefersReduced = useReducedMotion();
+
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef<Gesture | null>(null);
+  const lastTap = useRef<{ point: Point; time: number } | null>(null);
+
+  const settle = (value: MotionValue<number>, target: number) => {
+    if (prefersReduced) value.set(target);
+    else animate(value, target, { type: "spring", stiffness: 400, damping: 40 });
+  };
+
+  // Where the content's center sits when it isn't translated
+  const origin = () => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    return rect ? { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 } : { x: 0, y: 0 };
+  };
+
+  // Keep the zoomed photo covering its own box, so it can't be dragged off screen
+  const clamp = (s: number, tx: number, ty: number) => {
+    const el = contentRef.current;
+    const maxX = el ? ((s - 1) * el.offsetWidth) / 2 : 0;
+    const maxY = el ? ((s - 1) * el.offsetHeight) / 2 : 0;
+    return {
+      x: Math.max(-maxX, Math.min(maxX, tx)),
+      y: Math.max(-maxY, Math.min(maxY, ty)),
+    };
+  };
+
+  const snapshot = (points: Point[], single = false): Gesture => ({
+    points,
+    scale: scale.get(),
+    x: x.get(),
+    y: y.get(),
+    time: performance.now(),
+    single,
+    moved: false,
+  });
+
+  // Scale to `s`, moving whatever was under the gesture's anchor to `focus`
+  const place = (s: number, focus: Point, from: Gesture, animated: boolean) => {
+    const next = Math.max(1, Math.min(MAX_SCALE, s));
+    const center = origin();
+    const anchor = from.points.length === 2 ? midpoint(from.points[0], from.points[1]) : focus;
+    const contentX = (anchor.x - center.x - from.x) / from.scale;
+    const contentY = (anchor.y - center.y - from.y) / from.scale;
+    const t = clamp(next, focus.x - center.x - contentX * next, focus.y - center.y - contentY * next);
+
+    if (animated) {
+      settle(scale, next);
+      settle(x, t.x);
+      settle(y, t.y);
+    } else {
+      scale.set(next);
+      x.set(t.x);
+      y.set(t.y);
+    }
+    return next;
+  };
+
+  const zoomTo = (s: number, focus = origin()) => {
+    setZoomed(place(s, focus, snapshot([focus]), true) > 1);
+  };
+
+  const toggleZoom = (focus?: Point) => zoomTo(scale.get() > 1 ? 1 : DOUBLE_TAP_SCALE, focus);
+
+  // Back to fit at once, for the next photo rather than this one
+  const reset = () => {
+    pointers.current.clear();
+    gesture.current = null;
+    scale.set(1);
+    x.set(0);
+    y.set(0);
+    setZoomed(false);
+  };
+
+  const begin = () => {
+    const points = [...pointers.current.values()];
+    gesture.current = snapshot(points, points.length === 1 && !gesture.current);
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === "mouse" && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    // A second finger turns a pan or swipe into a pinch
+    begin();
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = gesture.current;
+    if (!start || !pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const points = [...pointers.current.values()];
+
+    if (points.length >= 2 && start.points.length >= 2) {
+      const ratio = distance(points[0], points[1]) / distance(start.points[0], start.points[1]);
+      place(start.scale * ratio, midpoint(points[0], points[1]), start, false);
+      return;
+    }
+
+    const dx = points[0].x - start.points[0].x;
+    const dy = points[0].y - start.points[0].y;
+    if (Math.hypot(dx, dy) > TAP_SLOP) start.moved = true;
+
+    if (start.scale > 1) {
+      const t = clamp(start.scale, start.x + dx, start.y + dy);
+      x.set(t.x);
+      y.set(t.y);
+    } else {
+      x.set(dx);
+    }
+  };
+
+  const onPointerEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = gesture.current;
+    const point = pointers.current.get(e.pointerId);
+    if (!start || !point) return;
+    pointers.current.delete(e.pointerId);
+
+    // Lifting one finger of a pinch: carry on as a pan from wherever the other one is
+    if (pointers.current.size > 0) {
+      begin();
+      return;
+    }
+    gesture.current = null;
+
+    const now = performance.now();
+    if (start.single && !start.moved && now - start.time < 250) {
+      const previous = lastTap.current;
+      if (previous && now - previous.time < DOUBLE_TAP_MS && distance(previous.point, point) < TAP_SLOP * 3) {
+        lastTap.current = null;
+        toggleZoom(point);
+      } else {
+        lastTap.current = { point, time: now };
+      }
+      return;
+    }
+
+    if (scale.get() > 1 || start.scale > 1) {
+      if (scale.get() < 1.05) zoomTo(1);
+      else setZoomed(true);
+      return;
+    }
+
+    if (start.single) {
+      const direction = swipeDirection(point.x - start.points[0].x, now - start.time);
+      if (direction) onSwipe(direction);
+      settle(x, 0);
+    }
+  };
+
+  return {
+    stageRef,
+    contentRef,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp: onPointerEnd,
+      onPointerCancel: onPointerEnd,
+    },
+    style: { x, y, scale },
+    zoomed,
+    zoomTo,
+    toggleZoom,
+    reset,
+  };
+}
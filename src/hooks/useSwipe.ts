@@ -0,0 +1,45 @@
+"use client";
+
+import { useRef } from "react";
+
+const SWIPE_DISTANCE = 80;
+// A flick has to travel at least this far, so a wobbly tap doesn't page
+const FLICK_DISTANCE = 20;
+// px per ms — a quick flick pages even when it's short
+const SWIPE_VELOCITY = 0.5;
+
+// Which way a horizontal drag of `dx` over `elapsed` ms pages, if it's a swipe at all
+export function swipeDirection(dx: number, elapsed: number): -1 | 1 | null {
+  const velocity = Math.abs(dx) / Math.max(1, elapsed);
+  const swiped =
+    Math.abs(dx) > SWIPE_DISTANCE || (Math.abs(dx) > FLICK_DISTANCE && velocity > SWIPE_VELOCITY);
+  if (!swiped) return null;
+  return dx < 0 ? 1 : -1;
+}
+
+// Swipe to page on a surface that doesn't zoom. Only gestures that start on the element
+// itself count — whatever it contains keeps its own drags
+export function useSwipe(onSwipe: (direction: -1 | 1) => void) {
+  const start = useRef<{ id: number; x: number; time: number } | null>(null);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLElement>) => {
+    if (e.target !== e.currentTarget || (e.pointerType === "mouse" && e.button !== 0)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    start.current = { id: e.pointerId, x: e.clientX, time: performance.now() };
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    const from = start.current;
+    if (!from || from.id !== e.pointerId) return;
+    start.current = null;
+
+    const direction = swipeDirection(e.clientX - from.x, performance.now() - from.time);
+    if (direction) onSwipe(direction);
+  };
+
+  const onPointerCancel = () => {
+    start.current = null;
+  };
+
+  return { onPointerDown, onPointerUp, onPointerCancel };
+}
@@ -0,0 +1,67 @@
+import { slugify } from "./utils";
+import type { TimelineRestaurant } from "./types";
+
+// Landing pages that group the collection by a free-text field
+export type BrowseKind = "cuisine" | "neighborhood";
+
+export const PRICE_RANGES = ["$", "$$", "$$$", "$$$$"] as const;
+
+export interface BrowseGroup {
+  slug: string;
+  name: string;
+  restaurants: TimelineRestaurant[];
+}
+
+export interface CollectionStats {
+  count: number;
+  averageScore: number;
+  priceCounts: Record<(typeof PRICE_RANGES)[number], number>;
+}
+
+function valueOf(restaurant: TimelineRestaurant, kind: BrowseKind) {
+  return (kind === "cuisine" ? restaurant.cuisine : restaurant.neighborhood)?.trim() || null;
+}
+
+export function browsePath(kind: BrowseKind, value: string) {
+  return `/${kind}/${slugify(value)}`;
+}
+
+// Free text drifts ("Viet-Cajun" vs "Viet Cajun"), so values that slugify the same
+// share a page, named after the most common spelling
+export function browseGroups(restaurants: TimelineRestaurant[], kind: BrowseKind): BrowseGroup[] {
+  const groups = new Map<string, { spellings: Map<string, number>; restaurants: TimelineRestaurant[] }>();
+
+  for (const restaurant of restaurants) {
+    const value = valueOf(restaurant, kind);
+    const slug = value && slugify(value);
+    if (!value || !slug) continue;
+
+    const group = groups.get(slug) ?? { spellings: new Map<string, number>(), restaurants: [] };
+    group.spellings.set(value, (group.spellings.get(value) ?? 0) + 1);
+    group.restaurants.push(restaurant);
+    groups.set(slug, group);
+  }
+
+  return [...groups.entries()].map(([slug, { spellings, restaurants }]) => ({
+    slug,
+    name: [...spellings.entries()].sort((a, b) => b[1] - a[1])[0][0],
+    restaurants,
+  }));
+}
+
+export function browseGroup(restaurants: TimelineRestaurant[], kind: BrowseKind, slug: string) {
+  return browseGroups(restaurants, kind).find((g) => g.slug === slug) ?? null;
+}
+
+export function collectionStats(restaurants: TimelineRestaurant[]): CollectionStats {
+  const priceCounts = Object.fromEntries(PRICE_RANGES.map((p) => [p, 0])) as CollectionStats["priceCounts"];
+  restaurants.forEach((r) => priceCounts[r.priceRange]++);
+
+  return {
+    count: restaurants.length,
+    averageScore: restaurants.length
+      ? restaurants.reduce((sum, r) => sum + r.overallScore, 0) / restaurants.length
+      : 0,
+    priceCounts,
+  };
+}
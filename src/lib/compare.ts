@@ -0,0 +1,64 @@
+import { VIBE_COLORS } from "./palette";
+import { restaurantScores } from "./visits";
+import type { RankKey } from "./rankings";
+import type { Restaurant, Scores } from "./types";
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+// What the "add to compare" tray remembers between pages
+export interface CompareItem {
+  slug: string;
+  name: string;
+}
+
+export interface ComparedRestaurant {
+  restaurant: Restaurant;
+  scores: Scores;
+  overallScore: number;
+  color: string;
+}
+
+export function parseCompareSlugs(value: string | string[] | undefined) {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const slugs = (raw ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+  return [...new Set(slugs)].slice(0, MAX_COMPARE);
+}
+
+export function comparePath(slugs: string[]) {
+  return `/compare?slugs=${slugs.map(encodeURIComponent).join(",")}`;
+}
+
+// Canonical scores the same way the detail page resolves them, plus a color per
+// restaurant — its vibe color unless another column already took it
+export function compareRestaurants(restaurants: Restaurant[]): ComparedRestaurant[] {
+  const used = new Set<string>();
+
+  return restaurants.map((restaurant) => {
+    const { scores, overallScore } = restaurantScores(restaurant);
+    const color =
+      restaurant.vibeColor && !used.has(restaurant.vibeColor)
+        ? restaurant.vibeColor
+        : (VIBE_COLORS.find((c) => !used.has(c.value)) ?? VIBE_COLORS[0]).value;
+    used.add(color);
+
+    return {
+      restaurant,
+      scores,
+      overallScore,
+      color,
+    };
+  });
+}
+
+export function compareValue(compared: ComparedRestaurant, key: RankKey) {
+  if (key === "overall") return compared.overallScore;
+  if (key === "rickFactor") return compared.restaurant.rickFactor.score;
+  return compared.scores[key];
+}
+
+// Everyone tied for the top score wins the category
+export function categoryWinners(compared: ComparedRestaurant[], key: RankKey) {
+  const best = Math.max(...compared.map((c) => compareValue(c, key)));
+  return compared.filter((c) => compareValue(c, key) === best).map((c) => c.restaurant._id);
+}
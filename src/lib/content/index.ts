@@ -0,0 +1,49 @@
+// Where page data comes from. Sanity when a project is configured, otherwise the
+// local content/ directory — set CONTENT_SOURCE=local|sanity to force either one.
+
+import { isSanityConfigured } from "@/lib/sanity/client";
+import { localSource } from "./local";
+import { sanitySource } from "./sanity";
+import type {
+  FeedRestaurant,
+  RankedDish,
+  Restaurant,
+  RestaurantSlug,
+  SearchRestaurant,
+  SiteSettings,
+  TimelineRestaurant,
+} from "@/lib/types";
+
+export interface ContentSource {
+  getTimelineRestaurants(): Promise<TimelineRestaurant[]>;
+  // Published content only, for generateStaticParams where there's no request
+  getPublishedTimelineRestaurants(): Promise<TimelineRestaurant[]>;
+  getSearchRestaurants(): Promise<SearchRestaurant[]>;
+  getRestaurant(slug: string): Promise<Restaurant | null>;
+  getBestDishes(): Promise<RankedDish[]>;
+  getFeedRestaurants(): Promise<FeedRestaurant[]>;
+  getAllRestaurantSlugs(): Promise<RestaurantSlug[]>;
+  getSiteSettings(): Promise<SiteSettings | null>;
+}
+
+function pickSource(): ContentSource {
+  switch (process.env.CONTENT_SOURCE) {
+    case "local":
+      return localSource;
+    case "sanity":
+      return sanitySource;
+    default:
+      return isSanityConfigured ? sanitySource : localSource;
+  }
+}
+
+const source = pickSource();
+
+export const getTimelineRestaurants = () => source.getTimelineRestaurants();
+export const getPublishedTimelineRestaurants = () => source.getPublishedTimelineRestaurants();
+export const getSearchRestaurants = () => source.getSearchRestaurants();
+export const getRestaurant = (slug: string) => source.getRestaurant(slug);
+export const getBestDishes = () => source.getBestDishes();
+export const getFeedRestaurants = () => source.getFeedRestaurants();
+export const getAllRestaurantSlugs = () => source.getAllRestaurantSlugs();
+export const getSiteSettings = () => source.getSiteSettings();
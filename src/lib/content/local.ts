@@ -0,0 +1,318 @@
+// Reads restaurants and site settings from the content/ directory so the site runs
+// without Sanity. See content/README.md for the file format.
+
+import { readdir, readFile, stat } from "fs/promises";
+import path from "path";
+import { cache } from "react";
+import { markdownToPortableText } from "@portabletext/markdown";
+import { toPlainText } from "next-sanity";
+import { parse as parseYaml } from "yaml";
+import { rankDishes } from "@/lib/dishes";
+import { LOCAL_IMAGE_REF } from "@/lib/sanity/client";
+import { currentRubric, rubricFor } from "@/lib/scoring";
+import { slugify } from "@/lib/utils";
+import { withVisitScores } from "@/lib/visits";
+import type {
+  GalleryImage,
+  Restaurant,
+  ReviewBlock,
+  Scores,
+  ScoreStrategy,
+  ScoringRubric,
+  SiteSettings,
+  TextBlock,
+  TimelineSource,
+} from "@/lib/types";
+import type { ContentSource } from ".";
+
+export const CONTENT_DIR = path.join(process.cwd(), "content");
+const RESTAURANTS_DIR = path.join(CONTENT_DIR, "restaurants");
+
+// Images are written as a path relative to the file that uses them, or {src, alt, caption}
+type ImageEntry = string | { src: string; alt?: string; caption?: string };
+
+// Files leave optional fields out; the queries return them as null
+type RestaurantFile = Pick<
+  Restaurant,
+  "name" | "cuisine" | "priceRange" | "scores" | "rickFactor" | "dateVisited"
+> & {
+  _id?: string;
+  slug?: string;
+  location: Omit<Restaurant["location"], "coordinates"> & {
+    coordinates?: { lat: number; lng: number };
+  };
+  vibeColor?: Restaurant["vibeColor"];
+  scoreStrategy?: ScoreStrategy;
+  rubricVersion?: number;
+  summary?: string;
+  review?: string | ReviewBlock[];
+  gallery?: ImageEntry[];
+  visits?: { _key?: string; date: string; scores: Scores; notes?: string; photos?: ImageEntry[] }[];
+  dishes?: {
+    _key?: string;
+    name: string;
+    price?: number;
+    score: number;
+    tags?: string[];
+    mustOrder?: boolean;
+    photo?: ImageEntry;
+  }[];
+};
+
+type SettingsFile = {
+  title?: string;
+  description?: string;
+  originStory?: string | TextBlock[];
+  scoringRubrics?: (Omit<ScoringRubric, "note"> & { note?: string })[];
+  timelineEvents?: { year?: string; title?: string; description?: string }[];
+};
+
+type LocalRestaurant = Omit<Restaurant, "rubric" | "currentRubricVersion">;
+
+const REQUIRED_FIELDS = ["name", "location", "cuisine", "priceRange", "scores", "dateVisited"] as const;
+
+// Markdown files keep their fields in YAML front matter and the long-form text in the body
+function parseFile(file: string, raw: string): { data: Record<string, unknown>; body?: string } {
+  if (file.endsWith(".json")) return { data: JSON.parse(raw) };
+
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) return { data: {}, body: raw };
+  return { data: parseYaml(match[1]) ?? {}, body: match[2] };
+}
+
+function imageFrom(entry: ImageEntry, file: string, key: string): GalleryImage {
+  const { src, ...rest } = typeof entry === "string" ? { src: entry } : entry;
+  const resolved = path.relative(CONTENT_DIR, path.resolve(path.dirname(file), src));
+  if (resolved.startsWith("..")) {
+    throw new Error(`${path.relative(process.cwd(), file)}: image "${src}" is outside content/`);
+  }
+
+  return {
+    _type: "image",
+    _key: key,
+    asset: { _type: "reference", _ref: `${LOCAL_IMAGE_REF}${resolved.split(path.sep).join("/")}` },
+    alt: rest.alt ?? "",
+    caption: rest.caption,
+    lqip: null,
+    exif: null,
+    camera: null,
+  };
+}
+
+function richTextFrom<T extends ReviewBlock | TextBlock>(
+  value: string | T[] | undefined,
+  file: string
+): T[] {
+  if (Array.isArray(value)) return value;
+  if (!value?.trim()) return [];
+
+  return markdownToPortableText(value, {
+    types: {
+      image: ({ context, value: image }) => {
+        const key = context.keyGenerator();
+        const { asset } = imageFrom(image.src, file, key);
+        return { _type: "image", _key: key, asset, caption: image.title || image.alt || undefined };
+      },
+    },
+  }) as T[];
+}
+
+async function readContentFile(file: string) {
+  return parseFile(file, await readFile(file, "utf8"));
+}
+
+async function listFiles(dir: string) {
+  try {
+    const entries = await readdir(dir);
+    return entries
+      .filter((name) => /\.(md|json)$/.test(name))
+      .sort()
+      .map((name) => path.join(dir, name));
+  } catch {
+    return [];
+  }
+}
+
+function toRestaurant(
+  data: RestaurantFile,
+  body: string | undefined,
+  file: string,
+  updatedAt: Date
+): LocalRestaurant {
+  const where = path.relative(process.cwd(), file);
+  REQUIRED_FIELDS.forEach((field) => {
+    if (data[field] == null) throw new Error(`${where}: missing "${field}"`);
+  });
+
+  const slug = data.slug ?? path.basename(file, path.extname(file));
+
+  const { coordinates, ...location } = data.location;
+
+  return {
+    _id: data._id ?? `local-${slug}`,
+    // Files have no edit history; the last save stands in for Sanity's _updatedAt
+    _updatedAt: updatedAt.toISOString(),
+    name: data.name,
+    slug: { _type: "slug", current: slug },
+    location: {
+      ...location,
+      ...(coordinates && { coordinates: { _type: "geopoint", ...coordinates } }),
+    },
+    cuisine: data.cuisine,
+    priceRange: data.priceRange,
+    vibeColor: data.vibeColor ?? null,
+    scores: data.scores,
+    scoreStrategy: data.scoreStrategy ?? null,
+    rubricVersion: data.rubricVersion ?? null,
+    rickFactor: data.rickFactor ?? { score: 0, description: "" },
+    summary: data.summary ?? "",
+    review: richTextFrom(body?.trim() ? body : data.review, file),
+    gallery: (data.gallery ?? []).map((img, i) => imageFrom(img, file, `gallery-${i}`)),
+    dateVisited: data.dateVisited,
+    visits:
+      data.visits?.map(({ photos, ...visit }, i) => ({
+        _key: visit._key ?? `visit-${i + 1}`,
+        date: visit.date,
+        scores: visit.scores,
+        notes: visit.notes ?? null,
+        photos: photos?.map((img, j) => imageFrom(img, file, `visit-${i + 1}-${j}`)) ?? null,
+      })) ?? null,
+    dishes:
+      data.dishes?.map(({ photo, ...dish }) => ({
+        _key: dish._key ?? slugify(dish.name),
+        name: dish.name,
+        price: dish.price ?? null,
+        score: dish.score,
+        tags: dish.tags ?? null,
+        mustOrder: dish.mustOrder ?? null,
+        photo: photo ? imageFrom(photo, file, `dish-${slugify(dish.name)}`) : null,
+      })) ?? null,
+  };
+}
+
+// Cached per request so a page and its metadata share one read of the directory
+const readRestaurants = cache(async () => {
+  const files = await listFiles(RESTAURANTS_DIR);
+  const restaurants = await Promise.all(
+    files.map(async (file) => {
+      const [{ data, body }, { mtime }] = await Promise.all([readContentFile(file), stat(file)]);
+      return toRestaurant(data as RestaurantFile, body, file, mtime);
+    })
+  );
+  return restaurants.sort((a, b) => b.dateVisited.localeCompare(a.dateVisited));
+});
+
+const readSettings = cache(async (): Promise<SiteSettings | null> => {
+  const [file] = await listFiles(CONTENT_DIR).then((files) =>
+    files.filter((f) => /^settings\.(md|json)$/.test(path.basename(f)))
+  );
+  if (!file) return null;
+
+  const { data, body } = await readContentFile(file);
+  const settings = data as SettingsFile;
+  return {
+    title: settings.title ?? null,
+    description: settings.description ?? null,
+    originStory: richTextFrom(body?.trim() ? body : settings.originStory, file),
+    scoringRubrics: settings.scoringRubrics?.map((r) => ({ ...r, note: r.note ?? null })) ?? null,
+    timelineEvents:
+      settings.timelineEvents?.map((e) => ({
+        year: e.year ?? null,
+        title: e.title ?? null,
+        description: e.description ?? null,
+      })) ?? null,
+  };
+});
+
+function timelineSource(r: LocalRestaurant): TimelineSource {
+  return {
+    _id: r._id,
+    name: r.name,
+    slug: r.slug,
+    cuisine: r.cuisine,
+    priceRange: r.priceRange,
+    heroImage: r.gallery?.[0] ?? null,
+    scores: r.scores,
+    scoreStrategy: r.scoreStrategy,
+    rubricVersion: r.rubricVersion,
+    rickFactorScore: r.rickFactor.score,
+    visits: r.visits,
+    neighborhood: r.location.neighborhood ?? null,
+    coordinates: r.location.coordinates ?? null,
+    dateVisited: r.dateVisited,
+    summary: r.summary,
+    vibeColor: r.vibeColor,
+  };
+}
+
+export const localSource: ContentSource = {
+  async getTimelineRestaurants() {
+    const [restaurants, settings] = await Promise.all([readRestaurants(), readSettings()]);
+    return restaurants.map((r) => withVisitScores(timelineSource(r), settings?.scoringRubrics));
+  },
+
+  // There are no drafts on disk
+  getPublishedTimelineRestaurants() {
+    return localSource.getTimelineRestaurants();
+  },
+
+  async getSearchRestaurants() {
+    const [restaurants, settings] = await Promise.all([readRestaurants(), readSettings()]);
+    return restaurants.map((r) => ({
+      ...withVisitScores(timelineSource(r), settings?.scoringRubrics),
+      city: r.location.city,
+      reviewText: toPlainText(r.review ?? []),
+      rickFactorDescription: r.rickFactor.description ?? null,
+    }));
+  },
+
+  async getRestaurant(slug) {
+    const [restaurants, settings] = await Promise.all([readRestaurants(), readSettings()]);
+    const restaurant = restaurants.find((r) => r.slug.current === slug);
+    if (!restaurant) return null;
+
+    return {
+      ...restaurant,
+      rubric: rubricFor(restaurant.rubricVersion, settings?.scoringRubrics),
+      currentRubricVersion: currentRubric(settings?.scoringRubrics).version,
+    };
+  },
+
+  async getBestDishes() {
+    const restaurants = await readRestaurants();
+    return rankDishes(
+      restaurants.flatMap((r) =>
+        (r.dishes ?? []).map((dish) => ({
+          ...dish,
+          restaurant: {
+            name: r.name,
+            slug: r.slug,
+            cuisine: r.cuisine,
+            neighborhood: r.location.neighborhood ?? null,
+          },
+        }))
+      )
+    );
+  },
+
+  async getFeedRestaurants() {
+    const [restaurants, settings] = await Promise.all([readRestaurants(), readSettings()]);
+    return restaurants.map((r) =>
+      withVisitScores(
+        {
+          ...timelineSource(r),
+          _updatedAt: r._updatedAt,
+          review: r.review,
+        },
+        settings?.scoringRubrics
+      )
+    );
+  },
+
+  async getAllRestaurantSlugs() {
+    const restaurants = await readRestaurants();
+    return restaurants.map((r) => ({ slug: r.slug.current, _updatedAt: r._updatedAt }));
+  },
+
+  getSiteSettings: readSettings,
+};
@@ -0,0 +1,22 @@
+import {
+  getAllRestaurantSlugs,
+  getBestDishes,
+  getFeedRestaurants,
+  getPublishedTimelineRestaurants,
+  getRestaurant,
+  getSearchRestaurants,
+  getSiteSettings,
+  getTimelineRestaurants,
+} from "@/lib/sanity/queries";
+import type { ContentSource } from ".";
+
+export const sanitySource: ContentSource = {
+  getTimelineRestaurants,
+  getPublishedTimelineRestaurants,
+  getSearchRestaurants,
+  getRestaurant,
+  getBestDishes,
+  getFeedRestaurants,
+  getAllRestaurantSlugs,
+  getSiteSettings,
+};
@@ -0,0 +1,23 @@
+import type { Dish, RankedDish } from "./types";
+
+// Highest score first; a "must order" flag breaks ties
+function compareDishes(a: Dish, b: Dish) {
+  return b.score - a.score || Number(!!b.mustOrder) - Number(!!a.mustOrder);
+}
+
+// GROQ yields null for restaurants whose dishes array is empty
+export function rankDishes(dishes: (RankedDish | null)[]) {
+  return dishes.filter((d): d is RankedDish => !!d?.name && !!d.score).sort(compareDishes);
+}
+
+// What to Order: must-order plates lead, the rest follow by score
+export function orderDishes(dishes: Dish[]) {
+  return [...dishes].sort(
+    (a, b) => Number(!!b.mustOrder) - Number(!!a.mustOrder) || b.score - a.score
+  );
+}
+
+export function formatPrice(price?: number | null) {
+  if (price == null) return null;
+  return `$${Number.isInteger(price) ? price : price.toFixed(2)}`;
+}
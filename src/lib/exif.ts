@@ -0,0 +1,36 @@
+import type { PhotoCamera, PhotoExif } from "./types";
+
+// Shutter speeds under a second read as fractions, the way cameras show them
+function exposureLabel(seconds: number) {
+  return seconds >= 1 ? `${Number(seconds.toFixed(1))}s` : `1/${Math.round(1 / seconds)}s`;
+}
+
+// EXIF writes dates as "2024:05:01 19:22:10"; anything else is tried as-is
+function takenLabel(value: string) {
+  const date = new Date(value.replace(/^(\d{4}):(\d{2}):(\d{2}) /, "$1-$2-$3T"));
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+}
+
+// Label/value rows for the lightbox info panel, leaving out anything the camera didn't record
+export function exifDetails(exif?: PhotoExif | null, camera?: PhotoCamera | null) {
+  const make = camera?.Make?.trim();
+  const model = camera?.Model?.trim();
+  // Most models already start with the make ("Canon EOS R6")
+  const body = make && model && !model.startsWith(make) ? `${make} ${model}` : model || make;
+
+  const settings = [
+    exif?.ExposureTime && exposureLabel(exif.ExposureTime),
+    exif?.FNumber && `ƒ/${Number(exif.FNumber.toFixed(1))}`,
+    exif?.ISO && `ISO ${exif.ISO}`,
+    exif?.FocalLength && `${Math.round(exif.FocalLength)}mm`,
+  ].filter(Boolean);
+
+  return [
+    { label: "Camera", value: body },
+    { label: "Lens", value: exif?.LensModel?.trim() },
+    { label: "Exposure", value: settings.join(" · ") },
+    { label: "Taken", value: exif?.DateTimeOriginal && takenLabel(exif.DateTimeOriginal) },
+  ].filter((row): row is { label: string; value: string } => !!row.value);
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import { feedItems, toAtom, toJsonFeed, toRss } from "./feed";
+import { absoluteUrl, SITE_URL } from "./site";
+import type { FeedRestaurant } from "./types";
+
+const scores = { taste: 8, vibe: 7, service: 9, value: 6 };
+
+function restaurant(overrides: Partial<FeedRestaurant> = {}): FeedRestaurant {
+  return {
+    _id: "le-jardinier",
+    _updatedAt: "2025-03-02T18:30:00Z",
+    name: "Le Jardinier",
+    slug: { _type: "slug", current: "le-jardinier" },
+    cuisine: "French",
+    priceRange: "$$$",
+    heroImage: null,
+    dateVisited: "2025-03-01",
+    summary: "Garden-fresh French in the museum district.",
+    review: null,
+    scores,
+    rickFactorScore: 8,
+    overallScore: 7.84,
+    visitHistory: [{ date: "2025-03-01", scores, overallScore: 7.84 }],
+    ...overrides,
+  };
+}
+
+const photo = (path: string, alt = "") => ({
+  _type: "image" as const,
+  _key: path,
+  alt,
+  asset: { _type: "reference" as const, _ref: `local:${path}` },
+});
+
+describe("feedItems", () => {
+  it("lists the newest visit first", () => {
+    const items = feedItems([
+      restaurant({ slug: { _type: "slug", current: "older" }, dateVisited: "2024-06-10" }),
+      restaurant({ slug: { _type: "slug", current: "newest" }, dateVisited: "2025-01-20" }),
+      restaurant({ slug: { _type: "slug", current: "middle" }, dateVisited: "2024-11-02" }),
+    ]);
+
+    expect(items.map((item) => item.url)).toEqual([
+      absoluteUrl("/restaurant/newest"),
+      absoluteUrl("/restaurant/middle"),
+      absoluteUrl("/restaurant/older"),
+    ]);
+  });
+
+  it("links to the restaurant and its hero image by absolute URL", () => {
+    const [item] = feedItems([restaurant({ heroImage: photo("images/le-jardinier/hero.png") })]);
+
+    expect(item.id).toBe(`${SITE_URL}/restaurant/le-jardinier`);
+    expect(item.url).toBe(item.id);
+    expect(item.image).toEqual({
+      url: `${SITE_URL}/content/images/le-jardinier/hero.png`,
+      type: "image/png",
+    });
+  });
+
+  it("leaves out the image when there's no hero", () => {
+    expect(feedItems([restaurant()])[0].image).toBeNull();
+  });
+
+  it("puts the score in the title and pins the visit date to midnight UTC", () => {
+    const [item] = feedItems([restaurant()]);
+
+    expect(item.title).toBe("Le Jardinier — 7.8/10");
+    expect(item.published.toISOString()).toBe("2025-03-01T00:00:00.000Z");
+    expect(item.updated.toISOString()).toBe("2025-03-02T18:30:00.000Z");
+  });
+
+  it("makes review links and images absolute", () => {
+    const [item] = feedItems([
+      restaurant({
+        review: [
+          {
+            _type: "block",
+            _key: "p1",
+            style: "normal",
+            markDefs: [{ _type: "link", _key: "l1", href: "/restaurant/himalaya" }],
+            children: [{ _type: "span", _key: "s1", text: "Like Himalaya", marks: ["l1"] }],
+          },
+          { ...photo("images/le-jardinier/plate.jpg"), caption: "The tasting menu" },
+        ],
+      }),
+    ]);
+
+    expect(item.html).toContain(`<a href="${SITE_URL}/restaurant/himalaya">Like Himalaya</a>`);
+    expect(item.html).toContain(`<img src="${SITE_URL}/content/images/le-jardinier/plate.jpg"`);
+    expect(item.html).toContain("<figcaption>The tasting menu</figcaption>");
+  });
+});
+
+describe("toRss", () => {
+  it("escapes text and wraps the body in CDATA", () => {
+    const [item] = feedItems([
+      restaurant({
+        name: `Tom & Jerry's "Diner"`,
+        cuisine: "Tex<Mex>",
+        summary: "Fries < onion rings & shakes",
+      }),
+    ]);
+    const xml = toRss([{ ...item, html: "<p>Ends with ]]> early</p>" }]);
+
+    expect(xml).toContain("<title>Tom &amp; Jerry&apos;s &quot;Diner&quot; — 7.8/10</title>");
+    expect(xml).toContain("<category>Tex&lt;Mex&gt;</category>");
+    expect(xml).toContain("<description>Fries &lt; onion rings &amp; shakes</description>");
+    expect(xml).toContain(
+      "<content:encoded><![CDATA[<p>Ends with ]]]]><![CDATA[> early</p>]]></content:encoded>"
+    );
+  });
+
+  it("adds an enclosure only for items with an image", () => {
+    const xml = toRss(
+      feedItems([
+        restaurant({ heroImage: photo("images/le-jardinier/hero.jpg") }),
+        restaurant({ slug: { _type: "slug", current: "himalaya" }, dateVisited: "2024-01-01" }),
+      ])
+    );
+
+    expect(xml.match(/<enclosure /g)).toHaveLength(1);
+    expect(xml).toContain(
+      `<enclosure url="${SITE_URL}/content/images/le-jardinier/hero.jpg" length="0" type="image/jpeg" />`
+    );
+  });
+
+  it("points the channel and self link at absolute URLs", () => {
+    const xml = toRss(feedItems([restaurant()]));
+
+    expect(xml).toContain(`<link>${SITE_URL}</link>`);
+    expect(xml).toContain(`<atom:link href="${SITE_URL}/feed.xml" rel="self"`);
+    expect(xml).toContain(`<guid isPermaLink="true">${SITE_URL}/restaurant/le-jardinier</guid>`);
+    expect(xml).toContain("<pubDate>Sat, 01 Mar 2025 00:00:00 GMT</pubDate>");
+  });
+});
+
+describe("toAtom", () => {
+  it("escapes the HTML body rather than wrapping it", () => {
+    const xml = toAtom(feedItems([restaurant({ summary: "Bread & butter" })]));
+
+    expect(xml).toContain("<summary>Bread &amp; butter</summary>");
+    expect(xml).toContain('<content type="html">&lt;p&gt;&lt;strong&gt;Overall: 7.8 / 10');
+    expect(xml).not.toContain("CDATA");
+  });
+
+  it("links the image as an enclosure", () => {
+    const xml = toAtom(feedItems([restaurant({ heroImage: photo("images/le-jardinier/hero.webp") })]));
+
+    expect(xml).toContain(
+      `<link rel="enclosure" type="image/webp" href="${SITE_URL}/content/images/le-jardinier/hero.webp" />`
+    );
+  });
+
+  it("points the feed and entries at absolute URLs", () => {
+    const xml = toAtom(feedItems([restaurant()]));
+
+    expect(xml).toContain(`<link rel="self" type="application/atom+xml" href="${SITE_URL}/atom.xml" />`);
+    expect(xml).toContain(`<id>${SITE_URL}/restaurant/le-jardinier</id>`);
+    expect(xml).toContain(`<updated>2025-03-02T18:30:00.000Z</updated>`);
+  });
+});
+
+describe("toJsonFeed", () => {
+  it("keeps the order and carries the score as an extension", () => {
+    const feed = toJsonFeed(
+      feedItems([
+        restaurant({ slug: { _type: "slug", current: "older" }, dateVisited: "2024-06-10" }),
+        restaurant({ heroImage: photo("images/le-jardinier/hero.jpg") }),
+      ])
+    );
+
+    expect(feed.feed_url).toBe(`${SITE_URL}/feed.json`);
+    expect(feed.items.map((item) => item.id)).toEqual([
+      `${SITE_URL}/restaurant/le-jardinier`,
+      `${SITE_URL}/restaurant/older`,
+    ]);
+    expect(feed.items[0]).toMatchObject({
+      image: `${SITE_URL}/content/images/le-jardinier/hero.jpg`,
+      date_published: "2025-03-01T00:00:00.000Z",
+      tags: ["French"],
+      _ricks_cafe: { overall_score: 7.8 },
+    });
+    expect(feed.items[1]).not.toHaveProperty("image");
+  });
+
+  it("leaves the HTML unescaped", () => {
+    const feed = toJsonFeed(feedItems([restaurant({ cuisine: "Surf & Turf" })]));
+
+    expect(feed.items[0].content_html).toContain("Surf &amp; Turf");
+    expect(feed.items[0].content_html.startsWith("<p><strong>")).toBe(true);
+  });
+});
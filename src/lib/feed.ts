@@ -0,0 +1,192 @@
+import { escapeHTML, toHTML, uriLooksSafe, type PortableTextHtmlComponents } from "@portabletext/to-html";
+import { urlFor } from "./sanity/client";
+import { absoluteUrl, FEED_PATHS, SITE_DESCRIPTION, SITE_NAME, SITE_URL } from "./site";
+import type { BeforeAfterBlock, FeedRestaurant, LinkMark, ReviewImage } from "./types";
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  html: string;
+  score: number;
+  cuisine: string;
+  published: Date;
+  updated: Date;
+  image: { url: string; type: string } | null;
+}
+
+type FeedImage = FeedRestaurant["heroImage"] | ReviewImage | BeforeAfterBlock["before"];
+
+// Feed readers fetch from anywhere, so every image and link has to be absolute
+function imageUrl(image: NonNullable<FeedImage>) {
+  return absoluteUrl(urlFor(image).width(1200).quality(80).format("jpg").url());
+}
+
+// Sanity serves the requested format; local files keep their own extension
+function imageType(url: string) {
+  if (/\.png$/i.test(url)) return "image/png";
+  if (/\.webp$/i.test(url)) return "image/webp";
+  if (/\.gif$/i.test(url)) return "image/gif";
+  return "image/jpeg";
+}
+
+const components: Partial<PortableTextHtmlComponents> = {
+  types: {
+    image: ({ value }: { value: ReviewImage }) => {
+      if (!value.asset?._ref) return "";
+      const caption = value.caption ? `<figcaption>${escapeHTML(value.caption)}</figcaption>` : "";
+      return `<figure><img src="${escapeHTML(imageUrl(value))}" alt="${escapeHTML(value.caption ?? "")}" />${caption}</figure>`;
+    },
+    // Readers can't run the slider, so the pair is shown one after the other
+    beforeAfter: ({ value }: { value: BeforeAfterBlock }) => {
+      if (!value.before?.asset?._ref || !value.after?.asset?._ref) return "";
+      const labels = `${value.beforeLabel || "Before"} / ${value.afterLabel || "After"}`;
+      const caption = escapeHTML(value.caption ? `${labels}: ${value.caption}` : labels);
+      const img = (side: BeforeAfterBlock["before"]) =>
+        `<img src="${escapeHTML(imageUrl(side))}" alt="${escapeHTML(side.alt)}" />`;
+      return `<figure>${img(value.before)}${img(value.after)}<figcaption>${caption}</figcaption></figure>`;
+    },
+  },
+  marks: {
+    link: ({ children, value }: { children: string; value?: LinkMark }) => {
+      const href = value?.href ? absoluteUrl(value.href) : "";
+      return uriLooksSafe(href) ? `<a href="${escapeHTML(href)}">${children}</a>` : children;
+    },
+  },
+};
+
+// Dates are stored as YYYY-MM-DD; pin them to midnight UTC so every format agrees
+function visitDate(date: string) {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+export function feedItems(restaurants: FeedRestaurant[]): FeedItem[] {
+  return [...restaurants]
+    .sort((a, b) => b.dateVisited.localeCompare(a.dateVisited))
+    .map((restaurant) => {
+      const url = absoluteUrl(`/restaurant/${restaurant.slug.current}`);
+      const score = restaurant.overallScore.toFixed(1);
+      const image = restaurant.heroImage?.asset ? imageUrl(restaurant.heroImage) : null;
+      const review = restaurant.review?.length ? toHTML(restaurant.review, { components }) : "";
+
+      return {
+        id: url,
+        url,
+        title: `${restaurant.name} — ${score}/10`,
+        summary: restaurant.summary,
+        html: `<p><strong>Overall: ${score} / 10</strong> · ${escapeHTML(restaurant.cuisine)} · ${escapeHTML(restaurant.priceRange)}</p>${review}`,
+        score: restaurant.overallScore,
+        cuisine: restaurant.cuisine,
+        published: visitDate(restaurant.dateVisited),
+        updated: new Date(restaurant._updatedAt),
+        image: image ? { url: image, type: imageType(image) } : null,
+      };
+    });
+}
+
+function lastUpdated(items: FeedItem[]) {
+  return new Date(Math.max(0, ...items.map((item) => item.updated.getTime())));
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// A literal "]]>" would end the section early, so split it across two
+function cdata(text: string) {
+  return `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+export function toRss(items: FeedItem[]) {
+  const entries = items.map(
+    (item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="true">${escapeXml(item.id)}</guid>
+      <pubDate>${item.published.toUTCString()}</pubDate>
+      <category>${escapeXml(item.cuisine)}</category>
+      <description>${escapeXml(item.summary)}</description>
+      <content:encoded>${cdata(item.html)}</content:encoded>${
+        item.image
+          ? `\n      <enclosure url="${escapeXml(item.image.url)}" length="0" type="${item.image.type}" />`
+          : ""
+      }
+    </item>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(SITE_NAME)}</title>
+    <link>${escapeXml(SITE_URL)}</link>
+    <description>${escapeXml(SITE_DESCRIPTION)}</description>
+    <language>en-us</language>
+    <lastBuildDate>${lastUpdated(items).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(absoluteUrl(FEED_PATHS.rss))}" rel="self" type="application/rss+xml" />
+${entries.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+export function toAtom(items: FeedItem[]) {
+  const entries = items.map(
+    (item) => `  <entry>
+    <id>${escapeXml(item.id)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />${
+      item.image
+        ? `\n    <link rel="enclosure" type="${item.image.type}" href="${escapeXml(item.image.url)}" />`
+        : ""
+    }
+    <published>${item.published.toISOString()}</published>
+    <updated>${item.updated.toISOString()}</updated>
+    <category term="${escapeXml(item.cuisine)}" />
+    <summary>${escapeXml(item.summary)}</summary>
+    <content type="html">${escapeXml(item.html)}</content>
+  </entry>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(`${SITE_URL}/`)}</id>
+  <title>${escapeXml(SITE_NAME)}</title>
+  <subtitle>${escapeXml(SITE_DESCRIPTION)}</subtitle>
+  <updated>${lastUpdated(items).toISOString()}</updated>
+  <link rel="alternate" type="text/html" href="${escapeXml(`${SITE_URL}/`)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(absoluteUrl(FEED_PATHS.atom))}" />
+  <author><name>${escapeXml(SITE_NAME)}</name></author>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+export function toJsonFeed(items: FeedItem[]) {
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title: SITE_NAME,
+    home_page_url: `${SITE_URL}/`,
+    feed_url: absoluteUrl(FEED_PATHS.json),
+    description: SITE_DESCRIPTION,
+    language: "en-US",
+    items: items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.html,
+      ...(item.image && { image: item.image.url }),
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      tags: [item.cuisine],
+      // JSON Feed extensions are namespaced with a leading underscore
+      _ricks_cafe: { overall_score: Number(item.score.toFixed(1)) },
+    })),
+  };
+}
@@ -0,0 +1,56 @@
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// Sanity geopoints leave lat/lng optional — only plot the ones that are filled in
+export function hasCoordinates<T extends { coordinates?: Partial<GeoPoint> | null }>(
+  item: T
+): item is T & { coordinates: GeoPoint } {
+  return item.coordinates?.lat != null && item.coordinates.lng != null;
+}
+
+export interface MapPoint {
+  x: number;
+  y: number;
+  // Set when the real location falls outside the frame and the dot was
+  // pinned to the edge; the angle (degrees) points toward where it really is
+  clamped: boolean;
+  angle?: number;
+}
+
+// The Houston line-art map is drawn in a 1000×600 viewBox
+export const MAP_WIDTH = 1000;
+export const MAP_HEIGHT = 600;
+
+// Geographic bounds of that viewBox, calibrated so the drawn 610 Loop
+// (x 460–820, y 180–440) sits over the real one: West Loop ≈ -95.456,
+// East Loop ≈ -95.275, North Loop ≈ 29.815, South Loop ≈ 29.680
+export const HOUSTON_BOUNDS = {
+  north: 29.908,
+  south: 29.597,
+  west: -95.687,
+  east: -95.185,
+};
+
+// Keep clamped dots (and their labels) clear of the frame edge
+const EDGE_INSET = 24;
+
+export function projectToMap({ lat, lng }: GeoPoint): MapPoint {
+  const { north, south, west, east } = HOUSTON_BOUNDS;
+  const rawX = ((lng - west) / (east - west)) * MAP_WIDTH;
+  const rawY = ((north - lat) / (north - south)) * MAP_HEIGHT;
+
+  const x = Math.min(MAP_WIDTH - EDGE_INSET, Math.max(EDGE_INSET, rawX));
+  const y = Math.min(MAP_HEIGHT - EDGE_INSET, Math.max(EDGE_INSET, rawY));
+  const clamped = x !== rawX || y !== rawY;
+
+  return {
+    x,
+    y,
+    clamped,
+    angle: clamped
+      ? (Math.atan2(rawY - y, rawX - x) * 180) / Math.PI
+      : undefined,
+  };
+}
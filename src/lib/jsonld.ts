@@ -0,0 +1,52 @@
+import { urlFor } from "./sanity/client";
+import { absoluteUrl, SITE_NAME, SITE_URL } from "./site";
+import { restaurantScores } from "./visits";
+import type { Restaurant } from "./types";
+
+// schema.org Restaurant with our Review nested in it, for search result rich snippets
+export function restaurantJsonLd(restaurant: Restaurant) {
+  const url = absoluteUrl(`/restaurant/${restaurant.slug.current}`);
+  const { overallScore } = restaurantScores(restaurant);
+  const hero = restaurant.gallery?.[0];
+  const { address, city, state, coordinates } = restaurant.location;
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Restaurant",
+    "@id": `${url}#restaurant`,
+    name: restaurant.name,
+    url,
+    ...(hero?.asset && { image: absoluteUrl(urlFor(hero).width(1200).url()) }),
+    servesCuisine: restaurant.cuisine,
+    priceRange: restaurant.priceRange,
+    address: {
+      "@type": "PostalAddress",
+      ...(address && { streetAddress: address }),
+      addressLocality: city,
+      addressRegion: state,
+      addressCountry: "US",
+    },
+    ...(coordinates?.lat != null &&
+      coordinates.lng != null && {
+        geo: {
+          "@type": "GeoCoordinates",
+          latitude: coordinates.lat,
+          longitude: coordinates.lng,
+        },
+      }),
+    review: {
+      "@type": "Review",
+      url,
+      reviewBody: restaurant.summary,
+      datePublished: restaurant.dateVisited,
+      dateModified: restaurant._updatedAt,
+      author: { "@type": "Organization", name: SITE_NAME, url: SITE_URL },
+      reviewRating: {
+        "@type": "Rating",
+        ratingValue: Number(overallScore.toFixed(1)),
+        bestRating: 10,
+        worstRating: 1,
+      },
+    },
+  };
+}
@@ -0,0 +1,60 @@
+// Assets for the generated Open Graph share cards. Fonts are bundled in assets/fonts
+// and read from disk, so rendering a card never calls out to a font service.
+
+import { readFile } from "fs/promises";
+import path from "path";
+import { urlFor } from "./sanity/client";
+import type { GalleryImage } from "./types";
+
+export const OG_SIZE = { width: 1200, height: 630 };
+
+// Hex twins of the globals.css tokens — the card renderer can't read CSS variables
+export const OG_COLORS = {
+  background: "#1c1638",
+  foreground: "#eedcbc",
+  accent: "#e8892a",
+  gold: "#c9a96e",
+  muted: "#8a7868",
+};
+
+const FONTS_DIR = path.join(process.cwd(), "assets", "fonts");
+
+export async function ogFonts() {
+  const load = (file: string) => readFile(path.join(FONTS_DIR, file));
+  const [heading, mono, monoBold] = await Promise.all([
+    load("cormorant-garamond-latin-700-normal.woff"),
+    load("jetbrains-mono-latin-400-normal.woff"),
+    load("jetbrains-mono-latin-700-normal.woff"),
+  ]);
+
+  return [
+    { name: "Cormorant Garamond", data: heading, weight: 700 as const, style: "normal" as const },
+    { name: "JetBrains Mono", data: mono, weight: 400 as const, style: "normal" as const },
+    { name: "JetBrains Mono", data: monoBold, weight: 700 as const, style: "normal" as const },
+  ];
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+};
+
+// Images from content/ are inlined from disk; Sanity images are requested from its CDN,
+// cropped to the card. Null when there's nothing the renderer can draw.
+export async function ogImageSrc(image?: GalleryImage | null) {
+  if (!image?.asset) return null;
+
+  const url = urlFor(image).width(OG_SIZE.width).height(OG_SIZE.height).fit("crop").format("jpg").url();
+  if (!url.startsWith("/content/")) return url;
+
+  const type = IMAGE_TYPES[path.extname(url).toLowerCase()];
+  if (!type) return null;
+  try {
+    const data = await readFile(path.join(process.cwd(), decodeURI(url)));
+    return `data:${type};base64,${data.toString("base64")}`;
+  } catch {
+    return null;
+  }
+}
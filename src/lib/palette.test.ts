@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { cuisineColors, VIBE_COLORS } from "./palette";
+
+const CUISINES = ["BBQ", "French", "Pakistani-Indian", "Thai", "Tex-Mex", "Viet-Cajun"];
+
+describe("cuisineColors", () => {
+  it("gives every cuisine its own color, even past the palette", () => {
+    const many = [...CUISINES, "Ethiopian", "Korean", "Nigerian", "Peruvian", "Greek", "Sushi"];
+    const colors = cuisineColors(many);
+
+    expect(colors.size).toBe(many.length);
+    expect(new Set(colors.values()).size).toBe(many.length);
+  });
+
+  it("starts from the palette", () => {
+    const palette = VIBE_COLORS.map((c) => c.value);
+    expect([...cuisineColors(CUISINES).values()].every((c) => palette.includes(c))).toBe(true);
+  });
+
+  it("doesn't repaint cuisines that don't clash with a new one", () => {
+    const before = cuisineColors(CUISINES);
+    const after = cuisineColors([...CUISINES, "Ethiopian"]);
+    const ethiopian = after.get("Ethiopian");
+
+    for (const cuisine of CUISINES) {
+      if (before.get(cuisine) !== ethiopian) expect(after.get(cuisine)).toBe(before.get(cuisine));
+    }
+  });
+
+  it("ignores duplicates and input order", () => {
+    expect(cuisineColors(["Thai", "BBQ", "Thai"])).toEqual(cuisineColors(["BBQ", "Thai"]));
+  });
+});
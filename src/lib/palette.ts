@@ -0,0 +1,45 @@
+// "Houston After Dark" accents a restaurant can carry through the site.
+// The Studio color picker is limited to these values.
+export const VIBE_COLORS = [
+  { title: "Smoked Brick", value: "#b5332b" },
+  { title: "Chili Ember", value: "#e8723a" },
+  { title: "Sunset Amber", value: "#e8892a" },
+  { title: "Bamboo Gold", value: "#c49a3c" },
+  { title: "Bayou Teal", value: "#1a7a6d" },
+  { title: "Garden Green", value: "#2d6b5e" },
+  { title: "Mole Plum", value: "#6b3a5d" },
+  { title: "Dusk Violet", value: "#8c5fa8" },
+];
+
+function hash(text: string) {
+  let hash = 0;
+  for (const char of text.toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return hash;
+}
+
+// The palette from a cuisine's own slot onward, then hues beyond it once all of it is taken
+function* candidates(seed: number) {
+  for (let i = 0; i < VIBE_COLORS.length; i++) {
+    yield VIBE_COLORS[(seed + i) % VIBE_COLORS.length].value;
+  }
+  for (let i = 0; ; i++) yield `hsl(${((seed + i * 137.5) % 360).toFixed(1)} 45% 50%)`;
+}
+
+// Each cuisine keeps the color its name hashes to, so new reviews don't repaint the map;
+// one that clashes with a cuisine already placed moves to the next free color
+export function cuisineColors(cuisines: string[]) {
+  const colors = new Map<string, string>();
+  const used = new Set<string>();
+
+  for (const cuisine of [...new Set(cuisines)].sort()) {
+    for (const color of candidates(hash(cuisine))) {
+      if (used.has(color)) continue;
+      colors.set(cuisine, color);
+      used.add(color);
+      break;
+    }
+  }
+  return colors;
+}
@@ -0,0 +1,107 @@
+import { slugify } from "./utils";
+import { PRICE_RANGES } from "./browse";
+import type { Scores, TimelineRestaurant } from "./types";
+
+export type RankKey = "overall" | keyof Scores | "rickFactor";
+
+export const RANK_KEYS: { key: RankKey; label: string }[] = [
+  { key: "overall", label: "Overall" },
+  { key: "taste", label: "Taste" },
+  { key: "vibe", label: "Vibe" },
+  { key: "service", label: "Service" },
+  { key: "value", label: "Value" },
+  { key: "rickFactor", label: "Rick Factor" },
+];
+
+export interface RankingOptions {
+  sort: RankKey;
+  cuisine: string | null;
+  price: string | null;
+  year: string | null;
+  // Divide the score by the price tier: a 7 at $ beats a 9 at $$$
+  perDollar: boolean;
+}
+
+export interface RankedRestaurant {
+  restaurant: TimelineRestaurant;
+  rank: number;
+  score: number;
+}
+
+type SearchParamsInput = Record<string, string | string[] | undefined>;
+
+export const defaultRankingOptions: RankingOptions = {
+  sort: "overall",
+  cuisine: null,
+  price: null,
+  year: null,
+  perDollar: false,
+};
+
+function first(value: string | string[] | undefined) {
+  return (Array.isArray(value) ? value[0] : value)?.trim() || null;
+}
+
+export function rankScore(restaurant: TimelineRestaurant, key: RankKey) {
+  if (key === "overall") return restaurant.overallScore;
+  if (key === "rickFactor") return restaurant.rickFactorScore;
+  return restaurant.scores[key];
+}
+
+// "$" through "$$$$" — the tier is just the number of signs
+export function priceTier(priceRange: string) {
+  return Math.max(priceRange.length, 1);
+}
+
+export function lastVisited(restaurant: TimelineRestaurant) {
+  return restaurant.visitHistory.at(-1)?.date ?? restaurant.dateVisited;
+}
+
+export function rankingYear(restaurant: TimelineRestaurant) {
+  return restaurant.dateVisited.slice(0, 4);
+}
+
+export function parseRankingParams(params: SearchParamsInput): RankingOptions {
+  const sort = first(params.sort);
+  const price = first(params.price);
+  return {
+    sort: RANK_KEYS.some((k) => k.key === sort) ? (sort as RankKey) : defaultRankingOptions.sort,
+    cuisine: first(params.cuisine),
+    price: price && (PRICE_RANGES as readonly string[]).includes(price) ? price : null,
+    year: first(params.year),
+    perDollar: first(params.value) === "dollar",
+  };
+}
+
+export function toRankingParams(options: RankingOptions) {
+  const params = new URLSearchParams();
+  if (options.sort !== defaultRankingOptions.sort) params.set("sort", options.sort);
+  if (options.cuisine) params.set("cuisine", options.cuisine);
+  if (options.price) params.set("price", options.price);
+  if (options.year) params.set("year", options.year);
+  if (options.perDollar) params.set("value", "dollar");
+  return params;
+}
+
+// Highest score first; the most recent visit breaks ties
+export function rankRestaurants(
+  restaurants: TimelineRestaurant[],
+  options: RankingOptions
+): RankedRestaurant[] {
+  return restaurants
+    .filter((r) => !options.cuisine || slugify(r.cuisine) === options.cuisine)
+    .filter((r) => !options.price || r.priceRange === options.price)
+    .filter((r) => !options.year || rankingYear(r) === options.year)
+    .map((restaurant) => {
+      const score = rankScore(restaurant, options.sort);
+      return {
+        restaurant,
+        score: options.perDollar ? score / priceTier(restaurant.priceRange) : score,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score || lastVisited(b.restaurant).localeCompare(lastVisited(a.restaurant))
+    )
+    .map((row, i) => ({ ...row, rank: i + 1 }));
+}
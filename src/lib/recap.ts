@@ -0,0 +1,61 @@
+import { browseGroups, PRICE_RANGES } from "./browse";
+import { priceTier } from "./rankings";
+import { expandVisits } from "./visits";
+import type { TimelineRestaurant } from "./types";
+
+export const TOP_COUNT = 5;
+
+export interface YearRecap {
+  year: string;
+  totalVisits: number;
+  restaurantCount: number;
+  // Best visit of the year per restaurant, highest first
+  top: TimelineRestaurant[];
+  topCuisine: { name: string; slug: string; visits: number } | null;
+  topRickFactor: TimelineRestaurant;
+  // Mean price tier, 1 ($) to 4 ($$$$)
+  averageSpend: number;
+  months: number[];
+}
+
+// Every year with at least one visit, return visits included, newest first
+export function recapYears(restaurants: TimelineRestaurant[]) {
+  const years = restaurants.flatMap((r) => r.visitHistory.map((v) => v.date.slice(0, 4)));
+  return [...new Set(years)].sort().reverse();
+}
+
+export function spendLabel(averageSpend: number) {
+  return PRICE_RANGES[Math.min(Math.max(Math.round(averageSpend), 1), PRICE_RANGES.length) - 1];
+}
+
+export function yearRecap(restaurants: TimelineRestaurant[], year: string): YearRecap | null {
+  const visits = expandVisits(restaurants).filter((v) => v.dateVisited.startsWith(year));
+  if (visits.length === 0) return null;
+
+  const best = new Map<string, TimelineRestaurant>();
+  for (const visit of visits) {
+    const current = best.get(visit.slug.current);
+    if (!current || visit.overallScore > current.overallScore) best.set(visit.slug.current, visit);
+  }
+  const distinct = [...best.values()];
+
+  const cuisines = browseGroups(visits, "cuisine").sort(
+    (a, b) => b.restaurants.length - a.restaurants.length
+  );
+
+  const months = Array.from({ length: 12 }, () => 0);
+  visits.forEach((v) => months[Number(v.dateVisited.slice(5, 7)) - 1]++);
+
+  return {
+    year,
+    totalVisits: visits.length,
+    restaurantCount: distinct.length,
+    top: [...distinct].sort((a, b) => b.overallScore - a.overallScore).slice(0, TOP_COUNT),
+    topCuisine: cuisines[0]
+      ? { name: cuisines[0].name, slug: cuisines[0].slug, visits: cuisines[0].restaurants.length }
+      : null,
+    topRickFactor: distinct.reduce((top, r) => (r.rickFactorScore > top.rickFactorScore ? r : top)),
+    averageSpend: visits.reduce((sum, v) => sum + priceTier(v.priceRange), 0) / visits.length,
+    months,
+  };
+}
@@ -6,16 +6,63 @@ type SanityImageSource = Parameters<ReturnType<typeof createImageUrlBuilder>["im
 
 const isSanityConfigured = !!sanityConfig.projectId;
 
+// Strings we filter, group or compute with — invisible stega characters would break them
+const STEGA_SKIP = new Set([
+  "vibeColor",
+  "priceRange",
+  "scoreStrategy",
+  "cuisine",
+  "neighborhood",
+  "city",
+  "tags",
+]);
+
 export const sanityClient = createClient({
   ...sanityConfig,
   projectId: sanityConfig.projectId || "placeholder",
-  stega: { enabled: false },
+  // Off by default; sanityFetch switches it on per request in draft mode
+  stega: {
+    enabled: false,
+    studioUrl: "/studio",
+    filter: (props) =>
+      !props.resultPath.some((p) => typeof p === "string" && STEGA_SKIP.has(p)) &&
+      props.filterDefault(props),
+  },
 });
 
 const builder = createImageUrlBuilder(sanityClient);
 
+type ImageUrlBuilder = ReturnType<typeof builder.image>;
+
+// Images from the local content/ directory — the asset ref is "local:<path under content/>",
+// served as-is from /content/<path>, so transforms are no-ops
+export const LOCAL_IMAGE_REF = "local:";
+
+function localImageUrl(source: SanityImageSource) {
+  const ref = typeof source === "object" && source && "asset" in source && source.asset?._ref;
+  return typeof ref === "string" && ref.startsWith(LOCAL_IMAGE_REF)
+    ? `/content/${ref.slice(LOCAL_IMAGE_REF.length)}`
+    : null;
+}
+
+function passthrough(url: string): ImageUrlBuilder {
+  const chain: ImageUrlBuilder = new Proxy({} as ImageUrlBuilder, {
+    get: (_, prop) => (prop === "url" || prop === "toString" ? () => url : () => chain),
+  });
+  return chain;
+}
+
 export function urlFor(source: SanityImageSource) {
-  return builder.image(source);
+  const local = localImageUrl(source);
+  return local ? passthrough(local) : builder.image(source);
+}
+
+// Sanity asset refs encode the original size: image-<id>-1600x1200-jpg
+export function imageDimensions(ref: string) {
+  const match = ref.match(/-(\d+)x(\d+)-/);
+  return match
+    ? { width: Number(match[1]), height: Number(match[2]) }
+    : { width: 1600, height: 1200 };
 }
 
 export { isSanityConfigured };
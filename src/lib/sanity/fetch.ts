@@ -0,0 +1,35 @@
+import { draftMode } from "next/headers";
+import type { QueryParams } from "@sanity/client";
+import { sanityClient } from "./client";
+
+// Viewer token — only used server-side to read drafts while draft mode is on
+const token = process.env.SANITY_API_READ_TOKEN;
+
+// Cache tags: every restaurant query carries "restaurant", each detail page its own
+// slug tag, and anything reading Site Settings "siteSettings". The revalidate webhook
+// (src/app/api/revalidate) invalidates them when a document is published.
+export function restaurantTag(slug: string) {
+  return `restaurant:${slug}`;
+}
+
+// Published content is cached under tags; draft mode skips the cache and reads
+// drafts with stega-encoded strings so Presentation can draw click-to-edit overlays
+export async function sanityFetch<T>(query: string, params: QueryParams, tags: string[]) {
+  const { isEnabled } = await draftMode();
+
+  if (isEnabled && token) {
+    return sanityClient.fetch<T>(query, params, {
+      perspective: "drafts",
+      token,
+      useCdn: false,
+      stega: true,
+      cache: "no-store",
+    });
+  }
+
+  return sanityClient.fetch<T>(query, params, {
+    perspective: "published",
+    cache: "force-cache",
+    next: { tags },
+  });
+}
@@ -0,0 +1,33 @@
+// Maps documents to the pages that render them, for the Presentation tool in /studio
+
+import { defineDocuments, defineLocations, type PresentationPluginOptions } from "sanity/presentation";
+
+export const resolve: PresentationPluginOptions["resolve"] = {
+  mainDocuments: defineDocuments([
+    {
+      route: "/restaurant/:slug",
+      filter: `_type == "restaurant" && slug.current == $slug`,
+    },
+    {
+      route: "/about",
+      filter: `_type == "siteSettings"`,
+    },
+  ]),
+  locations: {
+    restaurant: defineLocations({
+      select: { name: "name", slug: "slug.current" },
+      resolve: (doc) => ({
+        locations: [
+          { title: doc?.name || "Untitled", href: `/restaurant/${doc?.slug}` },
+          { title: "Timeline", href: "/" },
+        ],
+      }),
+    }),
+    siteSettings: defineLocations({
+      locations: [
+        { title: "About", href: "/about" },
+        { title: "Timeline", href: "/" },
+      ],
+    }),
+  },
+};
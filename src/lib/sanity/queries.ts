@@ -1,67 +1,258 @@
+import { defineQuery } from "next-sanity";
 import { sanityClient, isSanityConfigured } from "./client";
+import { restaurantTag, sanityFetch } from "./fetch";
+import { rankDishes } from "@/lib/dishes";
+import { currentRubric, rubricFor, RUBRICS_QUERY, SCORING_FIELDS } from "@/lib/scoring";
+import { withVisitScores } from "@/lib/visits";
+import type {
+  FeedRestaurant,
+  RankedDish,
+  Restaurant,
+  RestaurantSlug,
+  SearchRestaurant,
+  SiteSettings,
+  TimelineRestaurant,
+} from "@/lib/types";
+import type {
+  BEST_DISHES_QUERY_RESULT,
+  FEED_QUERY_RESULT,
+  RESTAURANT_QUERY_RESULT,
+  RESTAURANT_SLUGS_QUERY_RESULT,
+  SEARCH_QUERY_RESULT,
+  SITE_SETTINGS_QUERY_RESULT,
+  TIMELINE_QUERY_RESULT,
+} from "./sanity.types";
 
 // Timeline: lightweight query for the homepage
-export async function getTimelineRestaurants() {
+export const TIMELINE_QUERY = defineQuery(`{
+    "restaurants": *[_type == "restaurant"] | order(dateVisited desc) {
+      _id,
+      name,
+      slug,
+      cuisine,
+      priceRange,
+      "heroImage": gallery[0] {
+        ...,
+        "lqip": asset->metadata.lqip
+      },
+      ${SCORING_FIELDS},
+      "neighborhood": location.neighborhood,
+      "coordinates": location.coordinates,
+      dateVisited,
+      summary,
+      vibeColor
+    },
+    "rubrics": ${RUBRICS_QUERY}
+  }`);
+
+export async function getTimelineRestaurants(): Promise<TimelineRestaurant[]> {
   if (!isSanityConfigured) return [];
-  return sanityClient.fetch(`
-    *[_type == "restaurant"] | order(dateVisited desc) {
+  const { restaurants, rubrics } = await sanityFetch<TIMELINE_QUERY_RESULT>(
+    TIMELINE_QUERY,
+    {},
+    ["restaurant", "siteSettings"]
+  );
+  return restaurants.map((r) => withVisitScores(r, rubrics));
+}
+
+// The same timeline for generateStaticParams — runs outside a request, so no draft
+// mode check
+export async function getPublishedTimelineRestaurants(): Promise<TimelineRestaurant[]> {
+  if (!isSanityConfigured) return [];
+  const { restaurants, rubrics } = await sanityClient.fetch<TIMELINE_QUERY_RESULT>(
+    TIMELINE_QUERY,
+    {},
+    { perspective: "published", cache: "force-cache", next: { tags: ["restaurant", "siteSettings"] } }
+  );
+  return restaurants.map((r) => withVisitScores(r, rubrics));
+}
+
+// Search: timeline fields plus the plain text we match against
+export const SEARCH_QUERY = defineQuery(`{
+    "restaurants": *[_type == "restaurant"] | order(dateVisited desc) {
       _id,
       name,
       slug,
       cuisine,
       priceRange,
-      "heroImage": gallery[0],
-      "overallScore": math::avg([scores.taste, scores.vibe, scores.service, scores.value]),
+      "heroImage": gallery[0] {
+        ...,
+        "lqip": asset->metadata.lqip
+      },
+      ${SCORING_FIELDS},
+      "neighborhood": location.neighborhood,
       dateVisited,
-      summary
-    }
-  `);
+      summary,
+      vibeColor,
+      "city": location.city,
+      "reviewText": pt::text(review),
+      "rickFactorDescription": rickFactor.description
+    },
+    "rubrics": ${RUBRICS_QUERY}
+  }`);
+
+export async function getSearchRestaurants(): Promise<SearchRestaurant[]> {
+  if (!isSanityConfigured) return [];
+  const { restaurants, rubrics } = await sanityFetch<SEARCH_QUERY_RESULT>(
+    SEARCH_QUERY,
+    {},
+    ["restaurant", "siteSettings"]
+  );
+  return restaurants.map((r) => withVisitScores(r, rubrics));
 }
 
+// Camera details for the lightbox info panel. Sanity only extracts these from uploads
+// whose image field asks for "exif" and "image" metadata (see the photo schema)
+const PHOTO_EXIF = `"exif": asset->metadata.exif { LensModel, FNumber, ExposureTime, ISO, FocalLength, DateTimeOriginal },
+        "camera": asset->metadata.image { Make, Model }`;
+
 // Detail: full restaurant data
-export async function getRestaurant(slug: string) {
-  if (!isSanityConfigured) return null;
-  return sanityClient.fetch(
-    `
+export const RESTAURANT_QUERY = defineQuery(`
     *[_type == "restaurant" && slug.current == $slug][0] {
       _id,
+      _updatedAt,
       name,
       slug,
       location,
       cuisine,
       priceRange,
+      vibeColor,
       scores,
+      scoreStrategy,
+      rubricVersion,
+      "rubrics": ${RUBRICS_QUERY},
       rickFactor,
       summary,
       review,
       gallery[] {
-        asset->,
-        caption,
-        alt
+        ...,
+        "lqip": asset->metadata.lqip,
+        ${PHOTO_EXIF}
       },
-      dateVisited
+      dishes[] {
+        _key,
+        name,
+        price,
+        score,
+        tags,
+        mustOrder,
+        photo {
+          ...,
+          "lqip": asset->metadata.lqip
+        }
+      },
+      dateVisited,
+      visits[] {
+        _key,
+        date,
+        scores,
+        notes,
+        photos[] {
+          ...,
+          "lqip": asset->metadata.lqip,
+          ${PHOTO_EXIF}
+        }
+      }
     }
-  `,
-    { slug }
+  `);
+
+export async function getRestaurant(slug: string): Promise<Restaurant | null> {
+  if (!isSanityConfigured) return null;
+  const result = await sanityFetch<RESTAURANT_QUERY_RESULT>(
+    RESTAURANT_QUERY,
+    { slug },
+    [restaurantTag(slug), "siteSettings"]
   );
+  if (!result) return null;
+
+  const { rubrics, ...restaurant } = result;
+  return {
+    ...restaurant,
+    rubric: rubricFor(restaurant.rubricVersion, rubrics),
+    currentRubricVersion: currentRubric(rubrics).version,
+  };
+}
+
+// Best Dishes: every rated dish across the collection, highest score first
+export const BEST_DISHES_QUERY = defineQuery(`
+    *[_type == "restaurant" && count(dishes) > 0] {
+      "dishes": dishes[] {
+        _key,
+        name,
+        price,
+        score,
+        tags,
+        mustOrder,
+        photo {
+          ...,
+          "lqip": asset->metadata.lqip
+        },
+        "restaurant": ^ {
+          name,
+          slug,
+          cuisine,
+          "neighborhood": location.neighborhood
+        }
+      }
+    }.dishes[]
+  `);
+
+export async function getBestDishes(): Promise<RankedDish[]> {
+  if (!isSanityConfigured) return [];
+  const dishes = await sanityFetch<BEST_DISHES_QUERY_RESULT>(BEST_DISHES_QUERY, {}, ["restaurant"]);
+  return rankDishes(dishes);
 }
 
-// All slugs for static generation
-export async function getAllRestaurantSlugs() {
+// Feeds: newest visits first, with the full review for the entry body
+export const FEED_QUERY = defineQuery(`{
+    "restaurants": *[_type == "restaurant"] | order(dateVisited desc) {
+      _id,
+      _updatedAt,
+      name,
+      slug,
+      cuisine,
+      priceRange,
+      "heroImage": gallery[0],
+      ${SCORING_FIELDS},
+      dateVisited,
+      summary,
+      review
+    },
+    "rubrics": ${RUBRICS_QUERY}
+  }`);
+
+export async function getFeedRestaurants(): Promise<FeedRestaurant[]> {
   if (!isSanityConfigured) return [];
-  return sanityClient.fetch(`
-    *[_type == "restaurant"] { "slug": slug.current }
+  const { restaurants, rubrics } = await sanityFetch<FEED_QUERY_RESULT>(
+    FEED_QUERY,
+    {},
+    ["restaurant", "siteSettings"]
+  );
+  return restaurants.map((r) => withVisitScores(r, rubrics));
+}
+
+// All slugs for static generation and the sitemap — runs outside a request, so no
+// draft mode check
+export const RESTAURANT_SLUGS_QUERY = defineQuery(`
+    *[_type == "restaurant"] { "slug": slug.current, _updatedAt }
   `);
+
+export async function getAllRestaurantSlugs(): Promise<RestaurantSlug[]> {
+  if (!isSanityConfigured) return [];
+  return sanityClient.fetch<RESTAURANT_SLUGS_QUERY_RESULT>(
+    RESTAURANT_SLUGS_QUERY,
+    {},
+    { perspective: "published", cache: "force-cache", next: { tags: ["restaurant"] } }
+  );
 }
 
 // Site settings (about page content)
-export async function getSiteSettings() {
-  if (!isSanityConfigured) return null;
-  return sanityClient.fetch(`
+export const SITE_SETTINGS_QUERY = defineQuery(`
     *[_type == "siteSettings"][0] {
       title,
       description,
       originStory,
+      scoringRubrics[] { version, weights, note },
       timelineEvents[] {
         year,
         title,
@@ -69,4 +260,8 @@ export async function getSiteSettings() {
       }
     }
   `);
+
+export async function getSiteSettings(): Promise<SiteSettings | null> {
+  if (!isSanityConfigured) return null;
+  return sanityFetch<SITE_SETTINGS_QUERY_RESULT>(SITE_SETTINGS_QUERY, {}, ["siteSettings"]);
 }
@@ -0,0 +1,812 @@
+/**
+ * ---------------------------------------------------------------------------------
+ * This file has been generated by Sanity TypeGen.
+ * Command: `sanity typegen generate`
+ *
+ * Any modifications made directly to this file will be overwritten the next time
+ * the TypeScript definitions are generated. Please make changes to the Sanity
+ * schema definitions and/or GROQ queries if you need to update these types.
+ *
+ * For more information on how to use Sanity TypeGen, visit the official documentation:
+ * https://www.sanity.io/docs/sanity-typegen
+ * ---------------------------------------------------------------------------------
+ */
+
+// Source: src/lib/sanity/schema.json
+export type SiteSettings = {
+  _id: string;
+  _type: "siteSettings";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  title?: string;
+  description?: string;
+  originStory?: Array<{
+    children?: Array<{
+      marks?: Array<string>;
+      text?: string;
+      _type: "span";
+      _key: string;
+    }>;
+    style?: "normal" | "h1" | "h2" | "h3" | "h4" | "h5" | "h6" | "blockquote";
+    listItem?: "bullet" | "number";
+    markDefs?: Array<{
+      href?: string;
+      _type: "link";
+      _key: string;
+    }>;
+    level?: number;
+    _type: "block";
+    _key: string;
+  }>;
+  timelineEvents?: Array<{
+    year?: string;
+    title?: string;
+    description?: string;
+    _key: string;
+  }>;
+  scoringRubrics?: Array<{
+    version: number;
+    weights: {
+      taste: number;
+      vibe: number;
+      service: number;
+      value: number;
+      rickFactor: number;
+    };
+    note?: string;
+    _type: "scoringRubric";
+    _key: string;
+  }>;
+};
+
+export type SanityImageAssetReference = {
+  _ref: string;
+  _type: "reference";
+  _weak?: boolean;
+  [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+};
+
+export type BeforeAfter = {
+  _type: "beforeAfter";
+  before: {
+    asset?: SanityImageAssetReference;
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    alt: string;
+    _type: "image";
+  };
+  after: {
+    asset?: SanityImageAssetReference;
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    alt: string;
+    _type: "image";
+  };
+  beforeLabel?: string;
+  afterLabel?: string;
+  caption?: string;
+};
+
+export type Dish = {
+  _type: "dish";
+  name: string;
+  price?: number;
+  photo?: {
+    asset?: SanityImageAssetReference;
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    alt: string;
+    _type: "image";
+  };
+  score: number;
+  tags?: Array<string>;
+  mustOrder?: boolean;
+};
+
+export type Restaurant = {
+  _id: string;
+  _type: "restaurant";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  name: string;
+  slug: Slug;
+  location: {
+    address?: string;
+    neighborhood?: string;
+    city: string;
+    state: string;
+    coordinates?: Geopoint;
+  };
+  cuisine: string;
+  priceRange: "$" | "$$" | "$$$" | "$$$$";
+  vibeColor?:
+    | "#b5332b"
+    | "#e8723a"
+    | "#e8892a"
+    | "#c49a3c"
+    | "#1a7a6d"
+    | "#2d6b5e"
+    | "#6b3a5d"
+    | "#8c5fa8";
+  scores: {
+    taste: number;
+    vibe: number;
+    service: number;
+    value: number;
+  };
+  scoreStrategy?: "latest" | "average" | "best";
+  rubricVersion?: number;
+  rickFactor: {
+    score: number;
+    description?: string;
+  };
+  summary: string;
+  review?: Array<
+    | {
+        children?: Array<{
+          marks?: Array<string>;
+          text?: string;
+          _type: "span";
+          _key: string;
+        }>;
+        style?: "normal" | "h2" | "h3" | "blockquote";
+        listItem?: "bullet" | "number";
+        markDefs?: Array<{
+          href?: string;
+          _type: "link";
+          _key: string;
+        }>;
+        level?: number;
+        _type: "block";
+        _key: string;
+      }
+    | {
+        asset?: SanityImageAssetReference;
+        media?: unknown;
+        hotspot?: SanityImageHotspot;
+        crop?: SanityImageCrop;
+        caption?: string;
+        _type: "image";
+        _key: string;
+      }
+    | ({
+        _key: string;
+      } & BeforeAfter)
+  >;
+  dishes?: Array<
+    {
+      _key: string;
+    } & Dish
+  >;
+  gallery?: Array<{
+    asset?: SanityImageAssetReference;
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    caption?: string;
+    alt: string;
+    _type: "image";
+    _key: string;
+  }>;
+  dateVisited: string;
+  visits?: Array<{
+    date: string;
+    scores: {
+      taste: number;
+      vibe: number;
+      service: number;
+      value: number;
+    };
+    notes?: string;
+    photos?: Array<{
+      asset?: SanityImageAssetReference;
+      media?: unknown;
+      hotspot?: SanityImageHotspot;
+      crop?: SanityImageCrop;
+      caption?: string;
+      alt: string;
+      _type: "image";
+      _key: string;
+    }>;
+    _type: "visit";
+    _key: string;
+  }>;
+};
+
+export type SanityImageCrop = {
+  _type: "sanity.imageCrop";
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+};
+
+export type SanityImageHotspot = {
+  _type: "sanity.imageHotspot";
+  x: number;
+  y: number;
+  height: number;
+  width: number;
+};
+
+export type Geopoint = {
+  _type: "geopoint";
+  lat?: number;
+  lng?: number;
+  alt?: number;
+};
+
+export type Slug = {
+  _type: "slug";
+  current: string;
+  source?: string;
+};
+
+export type SanityImagePaletteSwatch = {
+  _type: "sanity.imagePaletteSwatch";
+  background?: string;
+  foreground?: string;
+  population?: number;
+  title?: string;
+};
+
+export type SanityImagePalette = {
+  _type: "sanity.imagePalette";
+  darkMuted?: SanityImagePaletteSwatch;
+  lightVibrant?: SanityImagePaletteSwatch;
+  darkVibrant?: SanityImagePaletteSwatch;
+  vibrant?: SanityImagePaletteSwatch;
+  dominant?: SanityImagePaletteSwatch;
+  lightMuted?: SanityImagePaletteSwatch;
+  muted?: SanityImagePaletteSwatch;
+};
+
+export type SanityImageDimensions = {
+  _type: "sanity.imageDimensions";
+  height: number;
+  width: number;
+  aspectRatio: number;
+};
+
+export type SanityImageMetadata = {
+  _type: "sanity.imageMetadata";
+  location?: Geopoint;
+  dimensions?: SanityImageDimensions;
+  palette?: SanityImagePalette;
+  lqip?: string;
+  blurHash?: string;
+  thumbHash?: string;
+  hasAlpha?: boolean;
+  isOpaque?: boolean;
+};
+
+export type SanityFileAsset = {
+  _id: string;
+  _type: "sanity.fileAsset";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  originalFilename?: string;
+  label?: string;
+  title?: string;
+  description?: string;
+  altText?: string;
+  sha1hash?: string;
+  extension?: string;
+  mimeType?: string;
+  size?: number;
+  assetId?: string;
+  uploadId?: string;
+  path?: string;
+  url?: string;
+  source?: SanityAssetSourceData;
+};
+
+export type SanityAssetSourceData = {
+  _type: "sanity.assetSourceData";
+  name?: string;
+  id?: string;
+  url?: string;
+};
+
+export type SanityImageAsset = {
+  _id: string;
+  _type: "sanity.imageAsset";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  originalFilename?: string;
+  label?: string;
+  title?: string;
+  description?: string;
+  altText?: string;
+  sha1hash?: string;
+  extension?: string;
+  mimeType?: string;
+  size?: number;
+  assetId?: string;
+  uploadId?: string;
+  path?: string;
+  url?: string;
+  metadata?: SanityImageMetadata;
+  source?: SanityAssetSourceData;
+};
+
+export type AllSanitySchemaTypes =
+  | SiteSettings
+  | SanityImageAssetReference
+  | BeforeAfter
+  | Dish
+  | Restaurant
+  | SanityImageCrop
+  | SanityImageHotspot
+  | Geopoint
+  | Slug
+  | SanityImagePaletteSwatch
+  | SanityImagePalette
+  | SanityImageDimensions
+  | SanityImageMetadata
+  | SanityFileAsset
+  | SanityAssetSourceData
+  | SanityImageAsset;
+
+export declare const internalGroqTypeReferenceTo: unique symbol;
+
+// Source: src/lib/sanity/queries.ts
+// Variable: TIMELINE_QUERY
+// Query: {    "restaurants": *[_type == "restaurant"] | order(dateVisited desc) {      _id,      name,      slug,      cuisine,      priceRange,      "heroImage": gallery[0] {        ...,        "lqip": asset->metadata.lqip      },            scores,      scoreStrategy,      rubricVersion,      "rickFactorScore": rickFactor.score,      "visits": visits[] { date, scores },      "neighborhood": location.neighborhood,      "coordinates": location.coordinates,      dateVisited,      summary,      vibeColor    },    "rubrics": *[_type == "siteSettings"][0].scoringRubrics[] { version, weights, note }  }
+export type TIMELINE_QUERY_RESULT = {
+  restaurants: Array<{
+    _id: string;
+    name: string;
+    slug: Slug;
+    cuisine: string;
+    priceRange: "$" | "$$" | "$$$" | "$$$$";
+    heroImage: {
+      asset?: SanityImageAssetReference;
+      media?: unknown;
+      hotspot?: SanityImageHotspot;
+      crop?: SanityImageCrop;
+      caption?: string;
+      alt: string;
+      _type: "image";
+      _key: string;
+      lqip: string | null;
+    } | null;
+    scores: {
+      taste: number;
+      vibe: number;
+      service: number;
+      value: number;
+    };
+    scoreStrategy: "average" | "best" | "latest" | null;
+    rubricVersion: number | null;
+    rickFactorScore: number;
+    visits: Array<{
+      date: string;
+      scores: {
+        taste: number;
+        vibe: number;
+        service: number;
+        value: number;
+      };
+    }> | null;
+    neighborhood: string | null;
+    coordinates: Geopoint | null;
+    dateVisited: string;
+    summary: string;
+    vibeColor:
+      | "#1a7a6d"
+      | "#2d6b5e"
+      | "#6b3a5d"
+      | "#8c5fa8"
+      | "#b5332b"
+      | "#c49a3c"
+      | "#e8723a"
+      | "#e8892a"
+      | null;
+  }>;
+  rubrics: Array<{
+    version: number;
+    weights: {
+      taste: number;
+      vibe: number;
+      service: number;
+      value: number;
+      rickFactor: number;
+    };
+    note: string | null;
+  }> | null;
+};
+
+// Source: src/lib/sanity/queries.ts
+// Variable: SEARCH_QUERY
+// Query: {    "restaurants": *[_type == "restaurant"] | order(dateVisited desc) {      _id,      name,      slug,      cuisine,      priceRange,      "heroImage": gallery[0] {        ...,        "lqip": asset->metadata.lqip      },            scores,      scoreStrategy,      rubricVersion,      "rickFactorScore": rickFactor.score,      "visits": visits[] { date, scores },      "neighborhood": location.neighborhood,      dateVisited,      summary,      vibeColor,      "city": location.city,      "reviewText": pt::text(review),      "rickFactorDescription": rickFactor.description    },    "rubrics": *[_type == "siteSettings"][0].scoringRubrics[] { version, weights, note }  }
+export type SEARCH_QUERY_RESULT = {
+  restaurants: Array<{
+    _id: string;
+    name: string;
+    slug: Slug;
+    cuisine: string;
+    priceRange: "$" | "$$" | "$$$" | "$$$$";
+    heroImage: {
+      asset?: SanityImageAssetReference;
+      media?: unknown;
+      hotspot?: SanityImageHotspot;
+      crop?: SanityImageCrop;
+      caption?: string;
+      alt: string;
+      _type: "image";
+      _key: string;
+      lqip: string | null;
+    } | null;
+    scores: {
+      taste: number;
+      vibe: number;
+      service: number;
+      value: number;
+    };
+    scoreStrategy: "average" | "best" | "latest" | null;
+    rubricVersion: number | null;
+    rickFactorScore: number;
+    visits: Array<{
+      date: string;
+      scores: {
+        taste: number;
+        vibe: number;
+        service: number;
+        value: number;
+      };
+    }> | null;
+    neighborhood: string | null;
+    dateVisited: string;
+    summary: string;
+    vibeColor:
+      | "#1a7a6d"
+      | "#2d6b5e"
+      | "#6b3a5d"
+      | "#8c5fa8"
+      | "#b5332b"
+      | "#c49a3c"
+      | "#e8723a"
+      | "#e8892a"
+      | null;
+    city: string;
+    reviewText: string;
+    rickFactorDescription: string | null;
+  }>;
+  rubrics: Array<{
+    version: number;
+    weights: {
+      taste: number;
+      vibe: number;
+      service: number;
+      value: number;
+      rickFactor: number;
+    };
+    note: string | null;
+  }> | null;
+};
+
+// Source: src/lib/sanity/queries.ts
+// Variable: RESTAURANT_QUERY
+// Query: *[_type == "restaurant" && slug.current == $slug][0] {      _id,      _updatedAt,      name,      slug,      location,      cuisine,      priceRange,      vibeColor,      scores,      scoreStrategy,      rubricVersion,      "rubrics": *[_type == "siteSettings"][0].scoringRubrics[] { version, weights, note },      rickFactor,      summary,      review,      gallery[] {        ...,        "lqip": asset->metadata.lqip,        "exif": asset->metadata.exif { LensModel, FNumber, ExposureTime, ISO, FocalLength, DateTimeOriginal },        "camera": asset->metadata.image { Make, Model }      },      dishes[] {        _key,        name,        price,        score,        tags,        mustOrder,        photo {          ...,          "lqip": asset->metadata.lqip        }      },      dateVisited,      visits[] {        _key,        date,        scores,        notes,        photos[] {          ...,          "lqip": asset->metadata.lqip,          "exif": asset->metadata.exif { LensModel, FNumber, ExposureTime, ISO, FocalLength, DateTimeOriginal },        "camera": asset->metadata.image { Make, Model }        }      }    }
+export type RESTAURANT_QUERY_RESULT = {
+  _id: string;
+  _updatedAt: string;
+  name: string;
+  slug: Slug;
+  location: {
+    address?: string;
+    neighborhood?: string;
+    city: string;
+    state: string;
+    coordinates?: Geopoint;
+  };
+  cuisine: string;
+  priceRange: "$" | "$$" | "$$$" | "$$$$";
+  vibeColor:
+    | "#1a7a6d"
+    | "#2d6b5e"
+    | "#6b3a5d"
+    | "#8c5fa8"
+    | "#b5332b"
+    | "#c49a3c"
+    | "#e8723a"
+    | "#e8892a"
+    | null;
+  scores: {
+    taste: number;
+    vibe: number;
+    service: number;
+    value: number;
+  };
+  scoreStrategy: "average" | "best" | "latest" | null;
+  rubricVersion: number | null;
+  rubrics: Array<{
+    version: number;
+    weights: {
+      taste: number;
+      vibe: number;
+      service: number;
+      value: number;
+      rickFactor: number;
+    };
+    note: string | null;
+  }> | null;
+  rickFactor: {
+    score: number;
+    description?: string;
+  };
+  summary: string;
+  review: Array<
+    | ({
+        _key: string;
+      } & BeforeAfter)
+    | {
+        children?: Array<{
+          marks?: Array<string>;
+          text?: string;
+          _type: "span";
+          _key: string;
+        }>;
+        style?: "blockquote" | "h2" | "h3" | "normal";
+        listItem?: "bullet" | "number";
+        markDefs?: Array<{
+          href?: string;
+          _type: "link";
+          _key: string;
+        }>;
+        level?: number;
+        _type: "block";
+        _key: string;
+      }
+    | {
+        asset?: SanityImageAssetReference;
+        media?: unknown;
+        hotspot?: SanityImageHotspot;
+        crop?: SanityImageCrop;
+        caption?: string;
+        _type: "image";
+        _key: string;
+      }
+  > | null;
+  gallery: Array<{
+    asset?: SanityImageAssetReference;
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    caption?: string;
+    alt: string;
+    _type: "image";
+    _key: string;
+    lqip: string | null;
+    exif: null;
+    camera: null;
+  }> | null;
+  dishes: Array<{
+    _key: string;
+    name: string;
+    price: number | null;
+    score: number;
+    tags: Array<string> | null;
+    mustOrder: boolean | null;
+    photo: {
+      asset?: SanityImageAssetReference;
+      media?: unknown;
+      hotspot?: SanityImageHotspot;
+      crop?: SanityImageCrop;
+      alt: string;
+      _type: "image";
+      lqip: string | null;
+    } | null;
+  }> | null;
+  dateVisited: string;
+  visits: Array<{
+    _key: string;
+    date: string;
+    scores: {
+      taste: number;
+      vibe: number;
+      service: number;
+      value: number;
+    };
+    notes: string | null;
+    photos: Array<{
+      asset?: SanityImageAssetReference;
+      media?: unknown;
+      hotspot?: SanityImageHotspot;
+      crop?: SanityImageCrop;
+      caption?: string;
+      alt: string;
+      _type: "image";
+      _key: string;
+      lqip: string | null;
+      exif: null;
+      camera: null;
+    }> | null;
+  }> | null;
+} | null;
+
+// Source: src/lib/sanity/queries.ts
+// Variable: BEST_DISHES_QUERY
+// Query: *[_type == "restaurant" && count(dishes) > 0] {      "dishes": dishes[] {        _key,        name,        price,        score,        tags,        mustOrder,        photo {          ...,          "lqip": asset->metadata.lqip        },        "restaurant": ^ {          name,          slug,          cuisine,          "neighborhood": location.neighborhood        }      }    }.dishes[]
+export type BEST_DISHES_QUERY_RESULT = Array<{
+  _key: string;
+  name: string;
+  price: number | null;
+  score: number;
+  tags: Array<string> | null;
+  mustOrder: boolean | null;
+  photo: {
+    asset?: SanityImageAssetReference;
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    alt: string;
+    _type: "image";
+    lqip: string | null;
+  } | null;
+  restaurant: {
+    name: string;
+    slug: Slug;
+    cuisine: string;
+    neighborhood: string | null;
+  };
+} | null>;
+
+// Source: src/lib/sanity/queries.ts
+// Variable: FEED_QUERY
+// Query: {    "restaurants": *[_type == "restaurant"] | order(dateVisited desc) {      _id,      _updatedAt,      name,      slug,      cuisine,      priceRange,      "heroImage": gallery[0],            scores,      scoreStrategy,      rubricVersion,      "rickFactorScore": rickFactor.score,      "visits": visits[] { date, scores },      dateVisited,      summary,      review    },    "rubrics": *[_type == "siteSettings"][0].scoringRubrics[] { version, weights, note }  }
+export type FEED_QUERY_RESULT = {
+  restaurants: Array<{
+    _id: string;
+    _updatedAt: string;
+    name: string;
+    slug: Slug;
+    cuisine: string;
+    priceRange: "$" | "$$" | "$$$" | "$$$$";
+    heroImage: {
+      asset?: SanityImageAssetReference;
+      media?: unknown;
+      hotspot?: SanityImageHotspot;
+      crop?: SanityImageCrop;
+      caption?: string;
+      alt: string;
+      _type: "image";
+      _key: string;
+    } | null;
+    scores: {
+      taste: number;
+      vibe: number;
+      service: number;
+      value: number;
+    };
+    scoreStrategy: "average" | "best" | "latest" | null;
+    rubricVersion: number | null;
+    rickFactorScore: number;
+    visits: Array<{
+      date: string;
+      scores: {
+        taste: number;
+        vibe: number;
+        service: number;
+        value: number;
+      };
+    }> | null;
+    dateVisited: string;
+    summary: string;
+    review: Array<
+      | ({
+          _key: string;
+        } & BeforeAfter)
+      | {
+          children?: Array<{
+            marks?: Array<string>;
+            text?: string;
+            _type: "span";
+            _key: string;
+          }>;
+          style?: "blockquote" | "h2" | "h3" | "normal";
+          listItem?: "bullet" | "number";
+          markDefs?: Array<{
+            href?: string;
+            _type: "link";
+            _key: string;
+          }>;
+          level?: number;
+          _type: "block";
+          _key: string;
+        }
+      | {
+          asset?: SanityImageAssetReference;
+          media?: unknown;
+          hotspot?: SanityImageHotspot;
+          crop?: SanityImageCrop;
+          caption?: string;
+          _type: "image";
+          _key: string;
+        }
+    > | null;
+  }>;
+  rubrics: Array<{
+    version: number;
+    weights: {
+      taste: number;
+      vibe: number;
+      service: number;
+      value: number;
+      rickFactor: number;
+    };
+    note: string | null;
+  }> | null;
+};
+
+// Source: src/lib/sanity/queries.ts
+// Variable: RESTAURANT_SLUGS_QUERY
+// Query: *[_type == "restaurant"] { "slug": slug.current, _updatedAt }
+export type RESTAURANT_SLUGS_QUERY_RESULT = Array<{
+  slug: string;
+  _updatedAt: string;
+}>;
+
+// Source: src/lib/sanity/queries.ts
+// Variable: SITE_SETTINGS_QUERY
+// Query: *[_type == "siteSettings"][0] {      title,      description,      originStory,      scoringRubrics[] { version, weights, note },      timelineEvents[] {        year,        title,        description      }    }
+export type SITE_SETTINGS_QUERY_RESULT = {
+  title: string | null;
+  description: string | null;
+  originStory: Array<{
+    children?: Array<{
+      marks?: Array<string>;
+      text?: string;
+      _type: "span";
+      _key: string;
+    }>;
+    style?: "blockquote" | "h1" | "h2" | "h3" | "h4" | "h5" | "h6" | "normal";
+    listItem?: "bullet" | "number";
+    markDefs?: Array<{
+      href?: string;
+      _type: "link";
+      _key: string;
+    }>;
+    level?: number;
+    _type: "block";
+    _key: string;
+  }> | null;
+  scoringRubrics: Array<{
+    version: number;
+    weights: {
+      taste: number;
+      vibe: number;
+      service: number;
+      value: number;
+      rickFactor: number;
+    };
+    note: string | null;
+  }> | null;
+  timelineEvents: Array<{
+    year: string | null;
+    title: string | null;
+    description: string | null;
+  }> | null;
+} | null;
+
+// Query TypeMap
+import "@sanity/client";
+declare module "@sanity/client" {
+  interface SanityQueries {
+    '{\n    "restaurants": *[_type == "restaurant"] | order(dateVisited desc) {\n      _id,\n      name,\n      slug,\n      cuisine,\n      priceRange,\n      "heroImage": gallery[0] {\n        ...,\n        "lqip": asset->metadata.lqip\n      },\n      \n      scores,\n      scoreStrategy,\n      rubricVersion,\n      "rickFactorScore": rickFactor.score,\n      "visits": visits[] { date, scores },\n      "neighborhood": location.neighborhood,\n      "coordinates": location.coordinates,\n      dateVisited,\n      summary,\n      vibeColor\n    },\n    "rubrics": *[_type == "siteSettings"][0].scoringRubrics[] { version, weights, note }\n  }': TIMELINE_QUERY_RESULT;
+    '{\n    "restaurants": *[_type == "restaurant"] | order(dateVisited desc) {\n      _id,\n      name,\n      slug,\n      cuisine,\n      priceRange,\n      "heroImage": gallery[0] {\n        ...,\n        "lqip": asset->metadata.lqip\n      },\n      \n      scores,\n      scoreStrategy,\n      rubricVersion,\n      "rickFactorScore": rickFactor.score,\n      "visits": visits[] { date, scores },\n      "neighborhood": location.neighborhood,\n      dateVisited,\n      summary,\n      vibeColor,\n      "city": location.city,\n      "reviewText": pt::text(review),\n      "rickFactorDescription": rickFactor.description\n    },\n    "rubrics": *[_type == "siteSettings"][0].scoringRubrics[] { version, weights, note }\n  }': SEARCH_QUERY_RESULT;
+    '\n    *[_type == "restaurant" && slug.current == $slug][0] {\n      _id,\n      _updatedAt,\n      name,\n      slug,\n      location,\n      cuisine,\n      priceRange,\n      vibeColor,\n      scores,\n      scoreStrategy,\n      rubricVersion,\n      "rubrics": *[_type == "siteSettings"][0].scoringRubrics[] { version, weights, note },\n      rickFactor,\n      summary,\n      review,\n      gallery[] {\n        ...,\n        "lqip": asset->metadata.lqip,\n        "exif": asset->metadata.exif { LensModel, FNumber, ExposureTime, ISO, FocalLength, DateTimeOriginal },\n        "camera": asset->metadata.image { Make, Model }\n      },\n      dishes[] {\n        _key,\n        name,\n        price,\n        score,\n        tags,\n        mustOrder,\n        photo {\n          ...,\n          "lqip": asset->metadata.lqip\n        }\n      },\n      dateVisited,\n      visits[] {\n        _key,\n        date,\n        scores,\n        notes,\n        photos[] {\n          ...,\n          "lqip": asset->metadata.lqip,\n          "exif": asset->metadata.exif { LensModel, FNumber, ExposureTime, ISO, FocalLength, DateTimeOriginal },\n        "camera": asset->metadata.image { Make, Model }\n        }\n      }\n    }\n  ': RESTAURANT_QUERY_RESULT;
+    '\n    *[_type == "restaurant" && count(dishes) > 0] {\n      "dishes": dishes[] {\n        _key,\n        name,\n        price,\n        score,\n        tags,\n        mustOrder,\n        photo {\n          ...,\n          "lqip": asset->metadata.lqip\n        },\n        "restaurant": ^ {\n          name,\n          slug,\n          cuisine,\n          "neighborhood": location.neighborhood\n        }\n      }\n    }.dishes[]\n  ': BEST_DISHES_QUERY_RESULT;
+    '{\n    "restaurants": *[_type == "restaurant"] | order(dateVisited desc) {\n      _id,\n      _updatedAt,\n      name,\n      slug,\n      cuisine,\n      priceRange,\n      "heroImage": gallery[0],\n      \n      scores,\n      scoreStrategy,\n      rubricVersion,\n      "rickFactorScore": rickFactor.score,\n      "visits": visits[] { date, scores },\n      dateVisited,\n      summary,\n      review\n    },\n    "rubrics": *[_type == "siteSettings"][0].scoringRubrics[] { version, weights, note }\n  }': FEED_QUERY_RESULT;
+    '\n    *[_type == "restaurant"] { "slug": slug.current, _updatedAt }\n  ': RESTAURANT_SLUGS_QUERY_RESULT;
+    '\n    *[_type == "siteSettings"][0] {\n      title,\n      description,\n      originStory,\n      scoringRubrics[] { version, weights, note },\n      timelineEvents[] {\n        year,\n        title,\n        description\n      }\n    }\n  ': SITE_SETTINGS_QUERY_RESULT;
+  }
+}
@@ -0,0 +1,71 @@
+// Two photos of the same subject compared with a draggable divider — the plate full
+// vs. the plate empty. Used as a block in a restaurant's review
+
+import { defineField, defineType, type PreviewValue } from "sanity";
+
+const side = (name: "before" | "after") =>
+  defineField({
+    name,
+    title: name === "before" ? "Before" : "After",
+    type: "image",
+    options: { hotspot: true },
+    validation: (rule) => rule.required(),
+    fields: [
+      defineField({
+        name: "alt",
+        title: "Alt Text",
+        type: "string",
+        validation: (rule) => rule.required().error("Describe the photo for screen readers"),
+      }),
+    ],
+  });
+
+const beforeAfter = defineType({
+  name: "beforeAfter",
+  title: "Before / After",
+  type: "object",
+  fields: [
+    side("before"),
+    side("after"),
+    defineField({
+      name: "beforeLabel",
+      title: "Before Label",
+      type: "string",
+      initialValue: "Before",
+    }),
+    defineField({
+      name: "afterLabel",
+      title: "After Label",
+      type: "string",
+      initialValue: "After",
+    }),
+    defineField({ name: "caption", title: "Caption", type: "string" }),
+  ],
+  preview: {
+    select: {
+      beforeLabel: "beforeLabel",
+      afterLabel: "afterLabel",
+      caption: "caption",
+      media: "before",
+    },
+    prepare({
+      beforeLabel,
+      afterLabel,
+      caption,
+      media,
+    }: {
+      beforeLabel?: string;
+      afterLabel?: string;
+      caption?: string;
+      media?: PreviewValue["media"];
+    }) {
+      return {
+        title: `${beforeLabel || "Before"} / ${afterLabel || "After"}`,
+        subtitle: caption,
+        media,
+      };
+    },
+  },
+});
+
+export default beforeAfter;
@@ -0,0 +1,85 @@
+// A single plate worth talking about, embedded in a restaurant's dishes list
+
+import { defineField, defineType, type PreviewValue } from "sanity";
+
+const dish = defineType({
+  name: "dish",
+  title: "Dish",
+  type: "object",
+  fields: [
+    defineField({
+      name: "name",
+      title: "Name",
+      type: "string",
+      validation: (rule) => rule.required(),
+    }),
+    defineField({
+      name: "price",
+      title: "Price (USD)",
+      type: "number",
+      validation: (rule) => rule.min(0),
+    }),
+    defineField({
+      name: "photo",
+      title: "Photo",
+      type: "image",
+      options: { hotspot: true },
+      fields: [
+        defineField({
+          name: "alt",
+          title: "Alt Text",
+          type: "string",
+          validation: (rule) => rule.required().error("Describe the photo for screen readers"),
+        }),
+      ],
+    }),
+    defineField({
+      name: "score",
+      title: "Score",
+      type: "number",
+      validation: (rule) => rule.required().min(1).max(10),
+    }),
+    defineField({
+      name: "tags",
+      title: "Tags",
+      type: "array",
+      of: [{ type: "string" }],
+      options: { layout: "tags" },
+    }),
+    defineField({
+      name: "mustOrder",
+      title: "Must Order",
+      type: "boolean",
+      initialValue: false,
+    }),
+  ],
+  preview: {
+    select: {
+      title: "name",
+      score: "score",
+      mustOrder: "mustOrder",
+      media: "photo",
+    },
+    prepare({
+      title,
+      score,
+      mustOrder,
+      media,
+    }: {
+      title?: string;
+      score?: number;
+      mustOrder?: boolean;
+      media?: PreviewValue["media"];
+    }) {
+      return {
+        title,
+        subtitle: [score && `${score}/10`, mustOrder && "Must order"]
+          .filter(Boolean)
+          .join(" · "),
+        media,
+      };
+    },
+  },
+});
+
+export default dish;
@@ -1,4 +1,6 @@
+import beforeAfter from "./beforeAfter";
+import dish from "./dish";
 import restaurant from "./restaurant";
 import siteSettings from "./siteSettings";
 
-export const schemaTypes = [restaurant, siteSettings];
+export const schemaTypes = [restaurant, dish, beforeAfter, siteSettings];
@@ -1,45 +1,103 @@
 // Sanity schema definition for restaurant documents
 // Import this into your Sanity Studio's schema configuration
 
-const restaurant = {
+import { defineArrayMember, defineField, defineType, type ConfigContext } from "sanity";
+import { VIBE_COLORS } from "@/lib/palette";
+
+// Timeline cards clamp the summary; keep in step with scripts/import-notebook.mjs
+export const SUMMARY_MAX_LENGTH = 200;
+const SUMMARY_MIN_LENGTH = 40;
+
+// Dates are stored as YYYY-MM-DD, so comparing strings compares days
+function notInFuture(value?: string) {
+  const today = new Date().toISOString().slice(0, 10);
+  return !value || value <= today || "Visit dates can't be in the future";
+}
+
+// Shared by the original review and every return visit
+const scoreFields = ["taste", "vibe", "service", "value"].map((name) =>
+  defineField({
+    name,
+    title: name.charAt(0).toUpperCase() + name.slice(1),
+    type: "number",
+    validation: (rule) => rule.required().min(1).max(10),
+  })
+);
+
+const photo = defineArrayMember({
+  type: "image",
+  // "exif" and "image" keep the camera details for the lightbox info panel
+  options: { hotspot: true, metadata: ["blurhash", "lqip", "palette", "exif", "image"] },
+  fields: [
+    defineField({ name: "caption", title: "Caption", type: "string" }),
+    defineField({
+      name: "alt",
+      title: "Alt Text",
+      type: "string",
+      validation: (rule) => rule.required().error("Describe the photo for screen readers"),
+    }),
+  ],
+});
+
+const restaurant = defineType({
   name: "restaurant",
   title: "Restaurant",
   type: "document",
   fields: [
-    {
+    defineField({
       name: "name",
       title: "Name",
       type: "string",
-      validation: (Rule: any) => Rule.required(),
-    },
-    {
+      validation: (rule) => rule.required(),
+    }),
+    defineField({
       name: "slug",
       title: "Slug",
       type: "slug",
       options: { source: "name", maxLength: 96 },
-      validation: (Rule: any) => Rule.required(),
-    },
-    {
+      validation: (rule) => rule.required(),
+    }),
+    defineField({
       name: "location",
       title: "Location",
       type: "object",
+      validation: (rule) => rule.required(),
       fields: [
-        { name: "address", title: "Address", type: "string" },
-        { name: "city", title: "City", type: "string" },
-        { name: "state", title: "State", type: "string" },
-        {
+        defineField({ name: "address", title: "Address", type: "string" }),
+        defineField({
+          name: "neighborhood",
+          title: "Neighborhood",
+          type: "string",
+          description: "e.g. Montrose, Heights, Asiatown",
+        }),
+        defineField({
+          name: "city",
+          title: "City",
+          type: "string",
+          validation: (rule) => rule.required(),
+        }),
+        defineField({
+          name: "state",
+          title: "State",
+          type: "string",
+          validation: (rule) => rule.required(),
+        }),
+        defineField({
           name: "coordinates",
           title: "Coordinates",
           type: "geopoint",
-        },
+          validation: (rule) =>
+            rule.custom((value) => !!value || "Without coordinates the restaurant is left off the map").warning(),
+        }),
       ],
-    },
-    {
+    }),
+    defineField({
       name: "cuisine",
       title: "Cuisine",
       type: "string",
-    },
-    {
+      validation: (rule) => rule.required(),
+    }),
+    defineField({
       name: "priceRange",
       title: "Price Range",
       type: "string",
@@ -51,68 +109,89 @@ const restaurant = {
           { title: "$$$$", value: "$$$$" },
         ],
       },
-    },
-    {
+      validation: (rule) => rule.required(),
+    }),
+    defineField({
+      name: "vibeColor",
+      title: "Vibe Color",
+      type: "string",
+      description: "Accent color used on the timeline, stats bar and map",
+      options: {
+        list: VIBE_COLORS.map((c) => ({ title: `${c.title} (${c.value})`, value: c.value })),
+        layout: "radio",
+      },
+    }),
+    defineField({
       name: "scores",
       title: "Scores",
       type: "object",
-      fields: [
-        {
-          name: "taste",
-          title: "Taste",
-          type: "number",
-          validation: (Rule: any) => Rule.min(1).max(10),
-        },
-        {
-          name: "vibe",
-          title: "Vibe",
-          type: "number",
-          validation: (Rule: any) => Rule.min(1).max(10),
-        },
-        {
-          name: "service",
-          title: "Service",
-          type: "number",
-          validation: (Rule: any) => Rule.min(1).max(10),
-        },
-        {
-          name: "value",
-          title: "Value",
-          type: "number",
-          validation: (Rule: any) => Rule.min(1).max(10),
-        },
-      ],
-    },
-    {
+      fields: scoreFields,
+      validation: (rule) => rule.required(),
+    }),
+    defineField({
+      name: "scoreStrategy",
+      title: "Canonical Score",
+      type: "string",
+      description: "Which scores represent the restaurant once it has return visits",
+      options: {
+        list: [
+          { title: "Latest visit", value: "latest" },
+          { title: "Average of all visits", value: "average" },
+          { title: "Best visit", value: "best" },
+        ],
+        layout: "radio",
+      },
+      initialValue: "latest",
+    }),
+    defineField({
+      name: "rubricVersion",
+      title: "Rubric Version",
+      type: "number",
+      description:
+        "The scoring rubric this review was written under. New reviews start on the current one.",
+      validation: (rule) => rule.integer().min(1),
+      initialValue: async ({ getClient }: ConfigContext) => {
+        const version = await getClient({ apiVersion: "2024-01-01" }).fetch(
+          `math::max(*[_type == "siteSettings"][0].scoringRubrics[].version)`
+        );
+        return version ?? 1;
+      },
+    }),
+    defineField({
       name: "rickFactor",
       title: "The Rick Factor",
       type: "object",
+      validation: (rule) => rule.required(),
       fields: [
-        {
+        defineField({
           name: "score",
           title: "Score",
           type: "number",
-          validation: (Rule: any) => Rule.min(1).max(10),
-        },
-        {
+          validation: (rule) => rule.required().min(1).max(10),
+        }),
+        defineField({
           name: "description",
           title: "What Makes It Special",
           type: "text",
-        },
+        }),
       ],
-    },
-    {
+    }),
+    defineField({
       name: "summary",
       title: "Summary",
       type: "text",
-      description: "Short summary for timeline cards",
-    },
-    {
+      description: `Short summary for timeline cards — up to ${SUMMARY_MAX_LENGTH} characters`,
+      validation: (rule) => [
+        rule.required().max(SUMMARY_MAX_LENGTH),
+        rule.min(SUMMARY_MIN_LENGTH).warning("A sentence or two reads best on the timeline"),
+      ],
+    }),
+    defineField({
       name: "review",
       title: "Full Review",
       type: "array",
       of: [
-        {
+        defineArrayMember({
           type: "block",
           styles: [
             { title: "Normal", value: "normal" },
@@ -120,41 +199,81 @@ const restaurant = {
             { title: "H3", value: "h3" },
             { title: "Quote", value: "blockquote" },
           ],
-        },
-        {
+        }),
+        defineArrayMember({
           type: "image",
           options: { hotspot: true },
           fields: [
-            {
+            defineField({
               name: "caption",
               title: "Caption",
               type: "string",
-            },
+            }),
           ],
-        },
+        }),
+        defineArrayMember({ type: "beforeAfter" }),
       ],
-    },
-    {
+    }),
+    defineField({
+      name: "dishes",
+      title: "Dishes",
+      type: "array",
+      description: "Individually rated plates — feeds What to Order and the Best Dishes leaderboard",
+      of: [defineArrayMember({ type: "dish" })],
+    }),
+    defineField({
       name: "gallery",
       title: "Photo Gallery",
       type: "array",
+      description: "The first photo is the hero image on the timeline and detail page",
+      of: [photo],
+      validation: (rule) =>
+        rule.custom((photos) => !!photos?.length || "Add a hero photo for the timeline").warning(),
+    }),
+    defineField({
+      name: "dateVisited",
+      title: "Date Visited",
+      type: "date",
+      validation: (rule) => rule.required().custom(notInFuture),
+    }),
+    defineField({
+      name: "visits",
+      title: "Return Visits",
+      type: "array",
+      description: "Trips back after the original review (Date Visited and Scores above)",
       of: [
-        {
-          type: "image",
-          options: { hotspot: true },
+        defineArrayMember({
+          name: "visit",
+          title: "Visit",
+          type: "object",
           fields: [
-            { name: "caption", title: "Caption", type: "string" },
-            { name: "alt", title: "Alt Text", type: "string" },
+            defineField({
+              name: "date",
+              title: "Date",
+              type: "date",
+              validation: (rule) => rule.required().custom(notInFuture),
+            }),
+            defineField({
+              name: "scores",
+              title: "Scores",
+              type: "object",
+              fields: scoreFields,
+              validation: (rule) => rule.required(),
+            }),
+            defineField({ name: "notes", title: "Notes", type: "text" }),
+            defineField({
+              name: "photos",
+              title: "Photos",
+              type: "array",
+              of: [photo],
+            }),
           ],
-        },
+          preview: {
+            select: { title: "date", subtitle: "notes", media: "photos.0" },
+          },
+        }),
       ],
-    },
-    {
-      name: "dateVisited",
-      title: "Date Visited",
-      type: "date",
-      validation: (Rule: any) => Rule.required(),
-    },
+    }),
   ],
   preview: {
     select: {
@@ -163,6 +282,6 @@ const restaurant = {
       media: "gallery.0",
     },
   },
-};
+});
 
 export default restaurant;
@@ -1,49 +1,109 @@
-const siteSettings = {
+import { defineArrayMember, defineField, defineType } from "sanity";
+
+const siteSettings = defineType({
   name: "siteSettings",
   title: "Site Settings",
   type: "document",
   fields: [
-    {
+    defineField({
       name: "title",
       title: "Site Title",
       type: "string",
-    },
-    {
+    }),
+    defineField({
       name: "description",
       title: "Site Description",
       type: "text",
-    },
-    {
+    }),
+    defineField({
       name: "originStory",
       title: "Origin Story",
       type: "array",
-      of: [{ type: "block" }],
+      of: [defineArrayMember({ type: "block" })],
       description:
         "The full Rick's Cafe origin story for the About page",
-    },
-    {
+    }),
+    defineField({
       name: "timelineEvents",
       title: "Timeline of the Name",
       type: "array",
       of: [
-        {
+        defineArrayMember({
           type: "object",
           fields: [
-            { name: "year", title: "Year", type: "string" },
-            { name: "title", title: "Title", type: "string" },
-            {
+            defineField({ name: "year", title: "Year", type: "string" }),
+            defineField({ name: "title", title: "Title", type: "string" }),
+            defineField({
               name: "description",
               title: "Description",
               type: "text",
-            },
+            }),
+          ],
+        }),
+      ],
+    }),
+    defineField({
+      name: "scoringRubrics",
+      title: "Scoring Rubrics",
+      type: "array",
+      description:
+        "How the overall score is weighted. Add a new version to change the formula — reviews keep the version they were scored under.",
+      of: [
+        defineArrayMember({
+          type: "object",
+          name: "scoringRubric",
+          fields: [
+            defineField({
+              name: "version",
+              title: "Version",
+              type: "number",
+              validation: (rule) => rule.required().integer().min(1),
+            }),
+            defineField({
+              name: "weights",
+              title: "Weights",
+              type: "object",
+              validation: (rule) => rule.required(),
+              fields: [
+                { name: "taste", title: "Taste", initialValue: 1 },
+                { name: "vibe", title: "Vibe", initialValue: 1 },
+                { name: "service", title: "Service", initialValue: 1 },
+                { name: "value", title: "Value", initialValue: 1 },
+                {
+                  name: "rickFactor",
+                  title: "Rick Factor",
+                  initialValue: 0,
+                  description: "Optional — 0 leaves the Rick Factor out of the overall",
+                },
+              ].map((field) =>
+                defineField({
+                  ...field,
+                  type: "number",
+                  validation: (rule) => rule.required().min(0),
+                })
+              ),
+            }),
+            defineField({
+              name: "note",
+              title: "What Changed",
+              type: "text",
+              rows: 2,
+            }),
           ],
-        },
+          preview: {
+            select: { version: "version", note: "note" },
+            prepare: ({ version, note }: { version?: number; note?: string }) => ({
+              title: `v${version ?? "?"}`,
+              subtitle: note,
+            }),
+          },
+        }),
       ],
-    },
+    }),
   ],
   preview: {
     select: { title: "title" },
   },
-};
+});
 
 export default siteSettings;
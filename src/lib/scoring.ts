@@ -0,0 +1,74 @@
+import type { ScoreProfile, Scores, ScoringRubric } from "./types";
+
+// Equal-weight average of the four categories — the original notebook formula
+export const DEFAULT_RUBRIC: ScoringRubric = {
+  version: 1,
+  weights: { taste: 1, vibe: 1, service: 1, value: 1, rickFactor: 0 },
+  note: null,
+};
+
+// GROQ: the fields a query must project for overallScore() to run on its results
+export const SCORING_FIELDS = `
+      scores,
+      scoreStrategy,
+      rubricVersion,
+      "rickFactorScore": rickFactor.score,
+      "visits": visits[] { date, scores }`;
+
+// GROQ: every rubric version defined in Site Settings
+export const RUBRICS_QUERY = `*[_type == "siteSettings"][0].scoringRubrics[] { version, weights, note }`;
+
+export function currentRubric(rubrics?: ScoringRubric[] | null): ScoringRubric {
+  if (!rubrics?.length) return DEFAULT_RUBRIC;
+  return rubrics.reduce((latest, r) => (r.version > latest.version ? r : latest));
+}
+
+// Reviews from before rubrics were versioned fall under the oldest one
+export function rubricFor(
+  version: number | null | undefined,
+  rubrics?: ScoringRubric[] | null
+): ScoringRubric {
+  if (!rubrics?.length) return DEFAULT_RUBRIC;
+  if (version == null) {
+    return rubrics.reduce((oldest, r) => (r.version < oldest.version ? r : oldest));
+  }
+  return rubrics.find((r) => r.version === version) ?? currentRubric(rubrics);
+}
+
+export function overallScore(
+  scores: Scores,
+  rubric: ScoringRubric = DEFAULT_RUBRIC,
+  rickFactor?: number
+) {
+  const { weights } = rubric;
+  const parts: [number, number][] = [
+    [scores.taste, weights.taste],
+    [scores.vibe, weights.vibe],
+    [scores.service, weights.service],
+    [scores.value, weights.value],
+  ];
+  if (rickFactor != null && weights.rickFactor) {
+    parts.push([rickFactor, weights.rickFactor]);
+  }
+
+  const totalWeight = parts.reduce((sum, [, w]) => sum + w, 0);
+  if (totalWeight === 0) return 0;
+  return parts.reduce((sum, [score, w]) => sum + score * w, 0) / totalWeight;
+}
+
+// The typical review: every category averaged across the collection
+export function averageProfile(
+  restaurants: { scores: Scores; rickFactorScore: number }[]
+): ScoreProfile | null {
+  if (restaurants.length === 0) return null;
+  const mean = (pick: (r: (typeof restaurants)[number]) => number) =>
+    restaurants.reduce((sum, r) => sum + pick(r), 0) / restaurants.length;
+
+  return {
+    taste: mean((r) => r.scores.taste),
+    vibe: mean((r) => r.scores.vibe),
+    service: mean((r) => r.scores.service),
+    value: mean((r) => r.scores.value),
+    rickFactor: mean((r) => r.rickFactorScore),
+  };
+}
@@ -0,0 +1,150 @@
+import type { SearchRestaurant } from "./types";
+
+export interface SearchFilters {
+  q: string;
+  price: string[];
+  area: string[];
+  year: string[];
+  minScore: number;
+  maxScore: number;
+}
+
+export interface SearchFacets {
+  prices: string[];
+  areas: string[];
+  years: string[];
+}
+
+type SearchParamsInput = Record<string, string | string[] | undefined>;
+
+const PRICE_ORDER = ["$", "$$", "$$$", "$$$$"];
+
+// Where a match is found matters: a hit in the name beats one buried in the review
+const FIELD_WEIGHTS: [keyof SearchRestaurant, number][] = [
+  ["name", 5],
+  ["cuisine", 3],
+  ["summary", 2],
+  ["rickFactorDescription", 1],
+  ["reviewText", 1],
+];
+
+export const defaultFilters: SearchFilters = {
+  q: "",
+  price: [],
+  area: [],
+  year: [],
+  minScore: 0,
+  maxScore: 10,
+};
+
+function first(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function splitList(value: string | string[] | undefined) {
+  const raw = first(value);
+  return raw ? raw.split(",").map((v) => v.trim()).filter(Boolean) : [];
+}
+
+function parseScore(value: string | string[] | undefined, fallback: number) {
+  const raw = first(value);
+  const n = Number(raw);
+  return raw && Number.isFinite(n) ? Math.min(10, Math.max(0, n)) : fallback;
+}
+
+function normalize(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+export function getArea(restaurant: SearchRestaurant) {
+  return restaurant.neighborhood || restaurant.city || "";
+}
+
+export function getYear(restaurant: SearchRestaurant) {
+  return restaurant.dateVisited?.slice(0, 4) ?? "";
+}
+
+export function parseSearchParams(params: SearchParamsInput): SearchFilters {
+  return {
+    q: first(params.q)?.trim() ?? "",
+    price: splitList(params.price).filter((p) => PRICE_ORDER.includes(p)),
+    area: splitList(params.area),
+    year: splitList(params.year),
+    minScore: parseScore(params.min, defaultFilters.minScore),
+    maxScore: parseScore(params.max, defaultFilters.maxScore),
+  };
+}
+
+export function toSearchParams(filters: SearchFilters) {
+  const params = new URLSearchParams();
+  if (filters.q) params.set("q", filters.q);
+  if (filters.price.length) params.set("price", filters.price.join(","));
+  if (filters.area.length) params.set("area", filters.area.join(","));
+  if (filters.year.length) params.set("year", filters.year.join(","));
+  if (filters.minScore !== defaultFilters.minScore) {
+    params.set("min", String(filters.minScore));
+  }
+  if (filters.maxScore !== defaultFilters.maxScore) {
+    params.set("max", String(filters.maxScore));
+  }
+  return params;
+}
+
+export function getFacets(restaurants: SearchRestaurant[]): SearchFacets {
+  const unique = (values: string[]) => [...new Set(values.filter(Boolean))];
+
+  return {
+    prices: PRICE_ORDER.filter((p) => restaurants.some((r) => r.priceRange === p)),
+    areas: unique(restaurants.map(getArea)).sort(),
+    years: unique(restaurants.map(getYear)).sort().reverse(),
+  };
+}
+
+function relevance(restaurant: SearchRestaurant, terms: string[]) {
+  let total = 0;
+
+  for (const term of terms) {
+    let termScore = 0;
+    for (const [field, weight] of FIELD_WEIGHTS) {
+      const value = restaurant[field];
+      if (typeof value === "string" && normalize(value).includes(term)) {
+        termScore += weight;
+      }
+    }
+    // Every term must match somewhere
+    if (termScore === 0) return 0;
+    total += termScore;
+  }
+
+  return total;
+}
+
+export function filterRestaurants(
+  restaurants: SearchRestaurant[],
+  filters: SearchFilters
+) {
+  const terms = normalize(filters.q).split(/\s+/).filter(Boolean);
+
+  const matches = restaurants
+    .filter((r) => !filters.price.length || filters.price.includes(r.priceRange))
+    .filter((r) => !filters.area.length || filters.area.includes(getArea(r)))
+    .filter((r) => !filters.year.length || filters.year.includes(getYear(r)))
+    .filter(
+      (r) =>
+        (r.overallScore ?? 0) >= filters.minScore &&
+        (r.overallScore ?? 0) <= filters.maxScore
+    )
+    .map((restaurant) => ({
+      restaurant,
+      score: terms.length ? relevance(restaurant, terms) : 1,
+    }))
+    .filter((m) => m.score > 0);
+
+  // Stable sort keeps the reverse-chronological order for equal relevance
+  return matches
+    .sort((a, b) => b.score - a.score)
+    .map((m) => m.restaurant);
+}
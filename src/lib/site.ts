@@ -0,0 +1,23 @@
+// Absolute URLs for feeds, the sitemap and share cards. Set NEXT_PUBLIC_SITE_URL in
+// production; Vercel deployments fall back to their production domain.
+export const SITE_URL = (
+  process.env.NEXT_PUBLIC_SITE_URL ||
+  (process.env.VERCEL_PROJECT_PRODUCTION_URL
+    ? `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`
+    : "http://localhost:3000")
+).replace(/\/+$/, "");
+
+export const SITE_NAME = "Rick's Cafe";
+
+export const SITE_DESCRIPTION =
+  "Meticulous restaurant reviews documenting a culinary journey — one meal at a time.";
+
+export const FEED_PATHS = {
+  rss: "/feed.xml",
+  atom: "/atom.xml",
+  json: "/feed.json",
+} as const;
+
+export function absoluteUrl(path: string) {
+  return new URL(path, `${SITE_URL}/`).toString();
+}
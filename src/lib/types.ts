@@ -1,62 +1,106 @@
-export interface Restaurant {
-  _id: string;
-  name: string;
-  slug: { current: string };
-  location: {
-    address: string;
-    city: string;
-    state: string;
-    coordinates?: { lat: number; lng: number };
-  };
-  cuisine: string;
-  priceRange: "$" | "$$" | "$$$" | "$$$$";
-  scores: {
-    taste: number;
-    vibe: number;
-    service: number;
-    value: number;
-  };
-  rickFactor: {
-    score: number;
-    description: string;
-  };
-  summary: string;
-  review: any[]; // Sanity portable text blocks
-  gallery: GalleryImage[];
-  dateVisited: string;
+// Page data shapes, derived from the query results Sanity TypeGen writes to
+// src/lib/sanity/sanity.types.ts. Change the schema or the query, then run
+// `npm run typegen` — don't redeclare fields here.
+
+import type {
+  BEST_DISHES_QUERY_RESULT,
+  FEED_QUERY_RESULT,
+  RESTAURANT_QUERY_RESULT,
+  RESTAURANT_SLUGS_QUERY_RESULT,
+  SEARCH_QUERY_RESULT,
+  SITE_SETTINGS_QUERY_RESULT,
+  TIMELINE_QUERY_RESULT,
+} from "./sanity/sanity.types";
+
+type Item<T> = NonNullable<T> extends (infer U)[] ? NonNullable<U> : never;
+
+export type SiteSettings = NonNullable<SITE_SETTINGS_QUERY_RESULT>;
+
+export type ScoringRubric = Item<SiteSettings["scoringRubrics"]>;
+
+export type ScoreWeights = ScoringRubric["weights"];
+
+type RestaurantResult = Omit<NonNullable<RESTAURANT_QUERY_RESULT>, "rubrics">;
+
+export type Restaurant = RestaurantResult & {
+  // Resolved by getRestaurant from Site Settings
+  rubric: ScoringRubric;
+  currentRubricVersion: number;
+};
+
+export type RestaurantSlug = Item<RESTAURANT_SLUGS_QUERY_RESULT>;
+
+export type Scores = Restaurant["scores"];
+
+// The four categories plus the Rick Factor — the axes of the radar chart
+export type ScoreProfile = Scores & { rickFactor: number };
+
+// Which visit's scores stand for the restaurant once it has been revisited
+export type ScoreStrategy = NonNullable<Restaurant["scoreStrategy"]>;
+
+export type Visit = Item<Restaurant["visits"]>;
+
+export type GalleryImage = Item<Restaurant["gallery"]>;
+
+export type Dish = Item<Restaurant["dishes"]>;
+
+// A dish on the cross-restaurant leaderboard, with where to find it
+export type RankedDish = Item<BEST_DISHES_QUERY_RESULT>;
+
+// Portable Text, as stored by the review and origin story fields
+export type ReviewBlock = Item<Restaurant["review"]>;
+
+export type ReviewImage = Extract<ReviewBlock, { _type: "image" }>;
+
+export type BeforeAfterBlock = Extract<ReviewBlock, { _type: "beforeAfter" }>;
+
+// Sanity's extracted schema leaves EXIF out of image metadata, so TypeGen types the
+// PHOTO_EXIF projection as null. These are the fields it selects
+export interface PhotoExif {
+  LensModel: string | null;
+  FNumber: number | null;
+  ExposureTime: number | null;
+  ISO: number | null;
+  FocalLength: number | null;
+  DateTimeOriginal: string | null;
 }
 
-export interface GalleryImage {
-  _key?: string;
-  asset: {
-    _ref: string;
-    url?: string;
-  };
-  caption?: string;
-  alt?: string;
+export interface PhotoCamera {
+  Make: string | null;
+  Model: string | null;
 }
 
-export interface TimelineRestaurant {
-  _id: string;
-  name: string;
-  slug: { current: string };
-  cuisine: string;
-  priceRange: string;
-  neighborhood?: string;
-  heroImage: GalleryImage;
+export type LightboxPhoto = Omit<GalleryImage, "exif" | "camera"> & {
+  exif?: PhotoExif | null;
+  camera?: PhotoCamera | null;
+};
+
+// What the Gallery lightbox can show: a photo, or a before/after pair from the review
+export type GalleryItem = LightboxPhoto | BeforeAfterBlock;
+
+export type TextBlock = Item<SiteSettings["originStory"]>;
+
+export type LinkMark = Item<TextBlock["markDefs"]>;
+
+// The SCORING_FIELDS projection, before withVisitScores folds it into one number
+type ScoringFields = "scores" | "scoreStrategy" | "rubricVersion" | "rickFactorScore" | "visits";
+
+export type TimelineSource = Item<TIMELINE_QUERY_RESULT["restaurants"]>;
+
+export type ScoringSource = Pick<TimelineSource, ScoringFields | "dateVisited">;
+
+export type Scored<T extends ScoringSource> = Omit<T, ScoringFields> & {
+  // The scores that stand for the restaurant, per its score strategy
+  scores: Scores;
+  rickFactorScore: number;
   overallScore: number;
-  dateVisited: string;
-  summary: string;
-  vibeColor?: string;
-}
+  // Every visit, oldest first; the timeline shows one panel per entry
+  visitHistory: { date: string; scores: Scores; overallScore: number }[];
+  visitNumber?: number;
+};
 
-export interface SiteSettings {
-  title: string;
-  description: string;
-  originStory: any[];
-  timelineEvents: {
-    year: string;
-    title: string;
-    description: string;
-  }[];
-}
+export type TimelineRestaurant = Scored<TimelineSource>;
+
+export type SearchRestaurant = Scored<Item<SEARCH_QUERY_RESULT["restaurants"]>>;
+
+export type FeedRestaurant = Scored<Item<FEED_QUERY_RESULT["restaurants"]>>;
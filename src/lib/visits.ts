@@ -0,0 +1,115 @@
+import { overallScore, rubricFor } from "./scoring";
+import type {
+  Restaurant,
+  Scored,
+  Scores,
+  ScoreStrategy,
+  ScoringRubric,
+  ScoringSource,
+  TimelineRestaurant,
+  Visit,
+} from "./types";
+
+export const SCORE_STRATEGY_LABELS: Record<ScoreStrategy, string> = {
+  latest: "Latest visit",
+  average: "Average of all visits",
+  best: "Best visit",
+};
+
+// The original review has only a date and scores; return visits carry notes and photos
+type VisitEntry = Pick<Visit, "date" | "scores"> & Partial<Visit>;
+
+type VisitSource = {
+  dateVisited: string;
+  scores: Scores;
+  visits: VisitEntry[] | null;
+};
+
+// The original review counts as the first visit; return visits follow by date
+export function getVisits({ dateVisited, scores, visits }: VisitSource): VisitEntry[] {
+  const returnVisits = (visits ?? []).filter((v) => v.date && v.scores);
+  return [{ date: dateVisited, scores }, ...returnVisits].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+}
+
+export function canonicalScores(
+  visits: VisitEntry[],
+  strategy?: ScoreStrategy | null,
+  rubric?: ScoringRubric
+): Scores {
+  if (strategy === "average") {
+    const mean = (key: keyof Scores) =>
+      visits.reduce((sum, v) => sum + v.scores[key], 0) / visits.length;
+    return {
+      taste: mean("taste"),
+      vibe: mean("vibe"),
+      service: mean("service"),
+      value: mean("value"),
+    };
+  }
+
+  if (strategy === "best") {
+    return visits.reduce((best, v) =>
+      overallScore(v.scores, rubric) > overallScore(best.scores, rubric) ? v : best
+    ).scores;
+  }
+
+  return visits[visits.length - 1].scores;
+}
+
+// Every score a review page shows, decided in one place: the canonical scores per the
+// score strategy, and the overall for them and for each visit under the review's rubric
+export function restaurantScores(restaurant: Restaurant) {
+  const { rubric } = restaurant;
+  const score = (s: Scores) => overallScore(s, rubric, restaurant.rickFactor?.score);
+  const visits = getVisits(restaurant);
+  const scores = canonicalScores(visits, restaurant.scoreStrategy, rubric);
+
+  return {
+    scores,
+    overallScore: score(scores),
+    visits: visits.map((visit) => ({ ...visit, overallScore: score(visit.scores) })),
+  };
+}
+
+// Turns the raw SCORING_FIELDS from GROQ into the timeline's canonical score + history
+export function withVisitScores<T extends ScoringSource>(
+  { scores, visits, scoreStrategy, rubricVersion, rickFactorScore, ...restaurant }: T,
+  rubrics?: ScoringRubric[] | null
+): Scored<T> {
+  const all = getVisits({ dateVisited: restaurant.dateVisited, scores, visits });
+  const rubric = rubricFor(rubricVersion, rubrics);
+  const score = (s: Scores) => overallScore(s, rubric, rickFactorScore);
+  const canonical = canonicalScores(all, scoreStrategy, rubric);
+
+  return {
+    ...restaurant,
+    scores: canonical,
+    rickFactorScore,
+    overallScore: score(canonical),
+    visitHistory: all.map((v) => ({
+      date: v.date,
+      scores: v.scores,
+      overallScore: score(v.scores),
+    })),
+  };
+}
+
+// One timeline entry per visit, newest first
+export function expandVisits(restaurants: TimelineRestaurant[]) {
+  return restaurants
+    .flatMap((restaurant) =>
+      restaurant.visitHistory && restaurant.visitHistory.length > 1
+        ? restaurant.visitHistory.map((visit, i) => ({
+            ...restaurant,
+            _id: i === 0 ? restaurant._id : `${restaurant._id}-visit-${i + 1}`,
+            dateVisited: visit.date,
+            scores: visit.scores,
+            overallScore: visit.overallScore,
+            visitNumber: i + 1,
+          }))
+        : [restaurant]
+    )
+    .sort((a, b) => b.dateVisited.localeCompare(a.dateVisited));
+}